@@ -23,7 +23,8 @@ class MCPClient {
             icon: "👤",
             tools: [
                 { name: "get_profile", description: "Get user profile information" },
-                { name: "get_margins", description: "Get account margins and fund details" }
+                { name: "get_margins", description: "Get account margins and fund details" },
+                { name: "get_diagnostics", description: "Show API rate limiting and retry counts" }
             ]
         },
         {
@@ -31,7 +32,28 @@ class MCPClient {
             icon: "📊",
             tools: [
                 { name: "get_positions", description: "Get current trading positions" },
-                { name: "get_holdings", description: "Get portfolio holdings" }
+                {
+                    name: "convert_position",
+                    description: "Convert a position to another product",
+                    parameters: {
+                        exchange: "Exchange (NSE, BSE, NFO)",
+                        tradingsymbol: "Trading symbol",
+                        quantity: "Quantity to convert",
+                        old_product: "Current product (CNC, MIS, NRML)",
+                        new_product: "Product to convert to (CNC, MIS, NRML)"
+                    }
+                },
+                { name: "get_holdings", description: "Get portfolio holdings" },
+                { name: "get_holdings_authorisation", description: "Get the CDSL authorisation status of holdings" },
+                {
+                    name: "authorise_holdings",
+                    description: "Start a CDSL authorisation to sell holdings",
+                    parameters: {
+                        holdings: 'JSON holdings, e.g. [{"tradingsymbol":"TCS","quantity":5}] [optional, default all]'
+                    }
+                },
+                { name: "get_combined_holdings", description: "Get holdings summed across accounts" },
+                { name: "get_combined_positions", description: "Get positions summed across accounts" }
             ]
         },
         {
@@ -43,7 +65,62 @@ class MCPClient {
                     description: "List tradable instruments",
                     parameters: { 
                         exchange: "Exchange (NSE, BSE, etc.)",
-                        segment: "Segment (EQ, FO, etc.) [optional]"
+                        limit: "Max results [optional]",
+                        offset: "Results to skip [optional]"
+                    }
+                },
+                {
+                    name: "search_instruments",
+                    description: "Search instruments by symbol, name, expiry or strike",
+                    parameters: {
+                        query: "Symbol or name substring (e.g., INFY)",
+                        exchange: "Exchange [optional]",
+                        instrument_type: "Instrument type (EQ, FUT, CE, PE) [optional]",
+                        expiry_from: "Earliest expiry yyyy-mm-dd [optional]",
+                        expiry_to: "Latest expiry yyyy-mm-dd [optional]"
+                    }
+                }
+            ]
+        },
+        {
+            name: "Market Data",
+            icon: "📈",
+            tools: [
+                {
+                    name: "get_quote",
+                    description: "Get full market quotes, optionally with depth",
+                    parameters: {
+                        instruments: "Comma-separated EXCHANGE:SYMBOL or tokens (e.g., NSE:INFY,NSE:TCS)",
+                        include_depth: "Include market depth (true/false, default false)"
+                    }
+                },
+                {
+                    name: "get_ohlc",
+                    description: "Get OHLC and last traded price",
+                    parameters: { instruments: "Comma-separated EXCHANGE:SYMBOL or tokens" }
+                },
+                {
+                    name: "get_ltp",
+                    description: "Get last traded price",
+                    parameters: { instruments: "Comma-separated EXCHANGE:SYMBOL or tokens" }
+                },
+                {
+                    name: "get_historical_data",
+                    description: "Get historical candles",
+                    parameters: {
+                        instrument: "EXCHANGE:SYMBOL or token (e.g., NSE:INFY)",
+                        interval: "Interval (minute, 5minute, 15minute, 60minute, day, etc.)",
+                        from_date: "From date (yyyy-mm-dd)",
+                        to_date: "To date (yyyy-mm-dd)"
+                    }
+                },
+                {
+                    name: "get_option_chain",
+                    description: "Get option chain with IV and greeks",
+                    parameters: {
+                        underlying: "Underlying (e.g., NIFTY, BANKNIFTY)",
+                        expiry: "Expiry yyyy-mm-dd or nearest [optional]",
+                        strikes_around_atm: "Strikes on each side of ATM [optional]"
                     }
                 }
             ]
@@ -60,7 +137,7 @@ class MCPClient {
                     name: "place_order", 
                     description: "Place a new order",
                     parameters: {
-                        variety: "Order variety (regular, amo, etc.)",
+                        variety: "Order variety (regular, amo, co, iceberg, auction)",
                         exchange: "Exchange (NSE, BSE)",
                         tradingsymbol: "Trading symbol",
                         transaction_type: "BUY or SELL",
@@ -84,8 +161,98 @@ class MCPClient {
                         variety: "Order variety",
                         order_id: "Order ID to cancel"
                     }
+                },
+                {
+                    name: "place_basket",
+                    description: "Place a multi-leg basket with rollback",
+                    parameters: {
+                        orders: "JSON orders with the place_order parameters",
+                        square_off_on_failure: "true to close filled legs if a leg fails [optional]"
+                    }
+                },
+                {
+                    name: "confirm_order",
+                    description: "Confirm a previewed order request",
+                    parameters: {
+                        confirmation_token: "Token from the preview"
+                    }
+                }
+            ]
+        },
+        {
+            name: "Margins & Charges",
+            icon: "🧮",
+            tools: [
+                {
+                    name: "get_order_margins",
+                    description: "Estimate the margin for orders",
+                    parameters: {
+                        orders: 'JSON orders, e.g. [{"exchange":"NSE","tradingsymbol":"INFY","transaction_type":"BUY","quantity":1,"product":"CNC","order_type":"MARKET"}]'
+                    }
+                },
+                {
+                    name: "get_basket_margins",
+                    description: "Estimate the margin for a basket with hedge benefit",
+                    parameters: {
+                        orders: "JSON orders"
+                    }
+                },
+                {
+                    name: "get_order_charges",
+                    description: "Estimate brokerage, taxes and fees",
+                    parameters: {
+                        orders: "JSON orders"
+                    }
+                }
+            ]
+        },
+        {
+            name: "GTT Triggers",
+            icon: "🎯",
+            tools: [
+                { name: "get_gtts", description: "Get GTT triggers" },
+                {
+                    name: "get_gtt",
+                    description: "Get a GTT trigger",
+                    parameters: {
+                        trigger_id: "GTT trigger ID"
+                    }
+                },
+                {
+                    name: "place_gtt",
+                    description: "Create a GTT trigger",
+                    parameters: {
+                        exchange: "Exchange (NSE, BSE)",
+                        tradingsymbol: "Trading symbol",
+                        trigger_type: "single or two-leg",
+                        trigger_values: "Comma-separated trigger values (lower,upper for two-leg)",
+                        orders: 'JSON orders, e.g. [{"transaction_type":"SELL","quantity":1,"price":1400}]'
+                    }
+                },
+                {
+                    name: "delete_gtt",
+                    description: "Delete a GTT trigger",
+                    parameters: {
+                        trigger_id: "GTT trigger ID"
+                    }
                 }
             ]
+        },
+        {
+            name: "Authentication",
+            icon: "🔐",
+            tools: [
+                { name: "auth_status", description: "Show the Kite session status" },
+                { name: "get_login_url", description: "Get the Kite login URL" },
+                {
+                    name: "complete_login",
+                    description: "Log in with the redirect URL or request_token",
+                    parameters: {
+                        redirect_url: "URL the browser was redirected to after login"
+                    }
+                },
+                { name: "list_accounts", description: "List the configured Kite accounts" }
+            ]
         }
     ];
 
@@ -135,8 +302,12 @@ class MCPClient {
             
             const result = await this.client.callTool({ name, arguments: args });
             
-            console.log(`\n✅ Tool executed successfully!`);
-            console.log("📋 Result:");
+            if (result.isError) {
+                console.log(`\n❌ Tool returned an error:`);
+            } else {
+                console.log(`\n✅ Tool executed successfully!`);
+                console.log("📋 Result:");
+            }
             
             // Pretty print the result
             if (result.content && result.content[0]?.text) {
@@ -218,8 +389,16 @@ class MCPClient {
             const value = await this.getUserInput(`${param} (${description}): `);
             if (value) {
                 // Handle comma-separated lists
-                if (param === 'instruments' && value.includes(',')) {
+                if (param === 'instruments') {
                     args[param] = value.split(',').map(s => s.trim());
+                } else if (param === 'trigger_values') {
+                    args[param] = value.split(',').map(s => Number(s.trim()));
+                } else if (param === 'orders' || param === 'holdings') {
+                    args[param] = JSON.parse(value);
+                } else if (param === 'square_off_on_failure' || param === 'include_depth') {
+                    args[param] = value === 'true';
+                } else if (param === 'strikes_around_atm' || param === 'trigger_id') {
+                    args[param] = Number(value);
                 } else {
                     args[param] = value;
                 }
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RiskLimits } from './risk-engine.js';
+
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export interface AccountConfig {
+  name: string;
+  apiKey?: string;
+  apiSecret?: string;
+  accessToken?: string;
+  baseUrl?: string;
+  /** Local URL to capture the login redirect on */
+  redirectUrl?: string;
+  /** File watched for access tokens written by other tools */
+  tokenFile?: string;
+  tokenStoreFile?: string;
+  tokenStorePassphrase?: string;
+  /** Inline limits; otherwise riskLimitsFile or the shared RISK_LIMITS_FILE */
+  riskLimits?: RiskLimits;
+  riskLimitsFile?: string;
+  paperStateFile?: string;
+}
+
+export interface AccountsConfig {
+  defaultAccount: string;
+  accounts: AccountConfig[];
+  /** The accounts file, or null when the single account comes from the environment */
+  file: string | null;
+}
+
+const STRING_FIELDS = [
+  'apiKey', 'apiSecret', 'accessToken', 'baseUrl', 'redirectUrl', 'tokenFile',
+  'tokenStoreFile', 'tokenStorePassphrase', 'riskLimitsFile', 'paperStateFile',
+] as const;
+
+/**
+ * The single account configured with the ZERODHA_* environment variables
+ */
+export function accountFromEnvironment(env: NodeJS.ProcessEnv = process.env): AccountConfig {
+  return {
+    name: DEFAULT_ACCOUNT_NAME,
+    apiKey: env.ZERODHA_API_KEY || undefined,
+    apiSecret: env.ZERODHA_API_SECRET || undefined,
+    accessToken: env.ZERODHA_ACCESS_TOKEN || undefined,
+    baseUrl: env.ZERODHA_BASE_URL || undefined,
+    redirectUrl: env.KITE_REDIRECT_URL || undefined,
+    tokenFile: env.ZERODHA_TOKEN_FILE || '.env',
+    tokenStoreFile: env.KITE_TOKEN_STORE_FILE || undefined,
+    tokenStorePassphrase: env.KITE_TOKEN_STORE_PASSPHRASE || undefined,
+    riskLimitsFile: env.RISK_LIMITS_FILE || undefined,
+    paperStateFile: env.PAPER_STATE_FILE || undefined,
+  };
+}
+
+/**
+ * Replace ${NAME} references with environment variables, so secrets can stay
+ * out of the accounts file
+ */
+function expandEnv(value: string, field: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new Error(`${field} refers to \${${name}}, which is not set`);
+    }
+    return resolved;
+  });
+}
+
+function parseAccount(name: string, raw: unknown, env: NodeJS.ProcessEnv): AccountConfig {
+  if (!ACCOUNT_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid account name "${name}": use letters, digits, "-" and "_"`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Account "${name}" must be an object`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const account: AccountConfig = { name };
+  for (const field of STRING_FIELDS) {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`accounts.${name}.${field} must be a string`);
+    }
+    account[field] = expandEnv(value, `accounts.${name}.${field}`, env) || undefined;
+  }
+  if (!account.apiKey || !account.apiSecret) {
+    throw new Error(`Account "${name}" needs apiKey and apiSecret`);
+  }
+
+  if (record.riskLimits !== undefined) {
+    if (!record.riskLimits || typeof record.riskLimits !== 'object' || Array.isArray(record.riskLimits)) {
+      throw new Error(`accounts.${name}.riskLimits must be an object`);
+    }
+    account.riskLimits = record.riskLimits as RiskLimits;
+  }
+
+  // Each account keeps its own session and paper book
+  const dir = path.join(os.homedir(), '.kitelink');
+  account.tokenStoreFile ??= path.join(dir, 'sessions', `${name}.enc`);
+  account.paperStateFile ??= path.join(dir, `paper-state-${name}.json`);
+  return account;
+}
+
+/**
+ * Load the named accounts from KITE_ACCOUNTS_FILE (default
+ * ~/.kitelink/accounts.json):
+ *
+ *   { "default": "family", "accounts": { "family": { "apiKey": "...", "apiSecret": "${FAMILY_SECRET}" } } }
+ *
+ * Without the file the server runs the single account from the environment.
+ */
+export async function loadAccountsConfig(file?: string, env: NodeJS.ProcessEnv = process.env): Promise<AccountsConfig> {
+  const accountsFile = file || path.join(os.homedir(), '.kitelink', 'accounts.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(accountsFile, 'utf-8'));
+  } catch (error) {
+    if (!file && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { defaultAccount: DEFAULT_ACCOUNT_NAME, accounts: [accountFromEnvironment(env)], file: null };
+    }
+    throw new Error(`Failed to load accounts from ${accountsFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const config = raw as { default?: unknown; accounts?: unknown };
+  if (!config?.accounts || typeof config.accounts !== 'object' || Array.isArray(config.accounts)) {
+    throw new Error(`${accountsFile} must have an "accounts" object keyed by account name`);
+  }
+
+  const accounts = Object.entries(config.accounts).map(([name, account]) => {
+    try {
+      return parseAccount(name, account, env);
+    } catch (error) {
+      throw new Error(`${accountsFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  if (accounts.length === 0) {
+    throw new Error(`${accountsFile} does not configure any accounts`);
+  }
+
+  const defaultAccount = config.default === undefined ? accounts[0].name : String(config.default);
+  if (!accounts.some((account) => account.name === defaultAccount)) {
+    throw new Error(`${accountsFile}: default account "${defaultAccount}" is not configured`);
+  }
+  return { defaultAccount, accounts, file: accountsFile };
+}
@@ -0,0 +1,346 @@
+import path from 'path';
+import { DEFAULT_ACCOUNT_NAME, type AccountConfig } from './account-config.js';
+import { ZerodhaClient } from './zerodha-client.js';
+import { InstrumentMaster } from './instrument-master.js';
+import { OptionChainBuilder } from './option-chain.js';
+import { PaperBroker, ReplayPriceFeed, TradingBroker } from './paper-broker.js';
+import { OrderPreviewBuilder } from './order-confirmation.js';
+import { MarginEstimator } from './margin-estimator.js';
+import { RiskEngine, loadRiskLimits } from './risk-engine.js';
+import { ZerodhaAuth, openInBrowser, validateAccessToken, type AuthTokenResponse } from './auth.js';
+import { NotAuthenticatedError } from './errors.js';
+import { isLocalRedirectUrl } from './oauth-callback.js';
+import { logger, type Logger } from './logger.js';
+import { KiteTicker } from './ticker.js';
+import { TickHub } from './tick-hub.js';
+import { SessionTokenProvider } from './token-provider.js';
+import { TokenStore } from './token-store.js';
+import type { ZerodhaConfig } from './types/zerodha.js';
+
+/**
+ * Settings shared by every account, taken from the environment
+ */
+export interface AccountSettings {
+  timeout?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  tickerUrl?: string;
+  instrumentCacheDir?: string;
+  riskFreeRate?: number;
+  /** Risk limits for accounts that do not configure their own */
+  riskLimitsFile?: string;
+  paperTrading: boolean;
+  paperReplayFile?: string;
+  paperInitialCash?: number;
+  tickNotifyIntervalMs?: number;
+  loginTimeoutMs?: number;
+  openBrowser: boolean;
+}
+
+/**
+ * Everything built on a logged-in Kite client
+ */
+export interface AccountSession {
+  client: ZerodhaClient;
+  tokenProvider: SessionTokenProvider;
+  instrumentMaster: InstrumentMaster;
+  optionChainBuilder: OptionChainBuilder;
+  broker: TradingBroker;
+  orderPreviewBuilder: OrderPreviewBuilder;
+  marginEstimator: MarginEstimator;
+  riskEngine: RiskEngine;
+  tickHub: TickHub;
+}
+
+export interface PendingLogin {
+  login_url: string;
+  redirect_url: string;
+  started_at: string;
+}
+
+/**
+ * One Kite account: its credentials, token lifecycle and the client, broker
+ * and risk engine of its current session
+ */
+export class KiteAccount {
+  readonly name: string;
+  /** Prefix of this account's live data resources */
+  readonly uriPrefix: string;
+  private config: AccountConfig;
+  private settings: AccountSettings;
+  private notify: (uri: string) => void;
+  private log: Logger;
+  /** The redirect URL when the login redirect can be captured on it */
+  private callbackUrl: string | null = null;
+  private auth: ZerodhaAuth | null = null;
+  private tokenStore: TokenStore | null = null;
+  private current: AccountSession | null = null;
+  private sessionStart: Promise<void> | null = null;
+  private pendingLogin: PendingLogin | null = null;
+  private lastLoginError: string | null = null;
+
+  constructor(config: AccountConfig, settings: AccountSettings, uriPrefix: string, notify: (uri: string) => void) {
+    this.name = config.name;
+    this.uriPrefix = uriPrefix;
+    this.config = config;
+    this.settings = settings;
+    this.notify = notify;
+    this.log = logger.child(`account:${config.name}`);
+    logger.addSecret(config.apiSecret);
+    logger.addSecret(config.accessToken);
+
+    // Kite apps often redirect to a public https URL, which the user pastes into complete_login instead
+    if (config.redirectUrl && isLocalRedirectUrl(config.redirectUrl)) {
+      this.callbackUrl = config.redirectUrl;
+    } else if (config.redirectUrl) {
+      this.log.warning(`⚠️  Redirect URL ${config.redirectUrl} is not a local http URL, so the login redirect cannot be captured. Log in with get_login_url and complete_login`);
+    }
+
+    if (config.apiKey && config.apiSecret) {
+      this.auth = new ZerodhaAuth(config.apiKey, config.apiSecret, config.baseUrl);
+      this.tokenStore = new TokenStore(config.tokenStorePassphrase || config.apiSecret, config.tokenStoreFile);
+    }
+  }
+
+  /**
+   * The current session, or null before the first login
+   */
+  get session(): AccountSession | null {
+    return this.current;
+  }
+
+  /**
+   * Start a session with today's stored session or the configured access
+   * token, whichever is still valid. Otherwise the account stays
+   * unauthenticated until the login tools are used.
+   */
+  async initialize(): Promise<void> {
+    if (!this.auth || !this.tokenStore) {
+      this.log.error('❌ Missing required Zerodha configuration. Please set ZERODHA_API_KEY and ZERODHA_API_SECRET in your environment variables.');
+      return;
+    }
+
+    let stored: string | undefined;
+    try {
+      stored = (await this.tokenStore.load())?.access_token;
+    } catch (error) {
+      this.log.warning('⚠️  Could not read the token store', { error });
+    }
+    const candidates = [...new Set([stored, this.config.accessToken])]
+      .filter((token): token is string => Boolean(token) && token !== 'your_access_token');
+
+    for (const token of candidates) {
+      this.log.info(`🔍 Validating ${token === stored ? 'stored' : 'configured'} access token...`);
+      if (!await validateAccessToken(this.config.apiKey!, token, this.config.baseUrl)) {
+        this.log.warning(`❌ ${token === stored ? 'Stored' : 'Configured'} access token is invalid or expired`);
+        continue;
+      }
+      try {
+        await this.completeLogin({ access_token: token }, false);
+        return;
+      } catch (error) {
+        this.log.error('❌ Failed to initialize Zerodha client', { error });
+        break;
+      }
+    }
+
+    this.log.notice(`🔐 No Kite session for account "${this.name}". Use the get_login_url and complete_login tools to log in`);
+    if (this.callbackUrl) {
+      const { login_url } = this.startLoginListener(this.callbackUrl);
+      this.log.notice('🔐 Open the login URL to log in', { login_url });
+      if (this.settings.openBrowser) {
+        openInBrowser(login_url);
+      }
+    }
+  }
+
+  requireSession(): AccountSession {
+    if (!this.current) {
+      throw this.notAuthenticated();
+    }
+    return this.current;
+  }
+
+  private notAuthenticated(): NotAuthenticatedError {
+    if (!this.auth) {
+      return new NotAuthenticatedError(
+        'Not logged in to Kite: ZERODHA_API_KEY and ZERODHA_API_SECRET are not set',
+        'Ask the user to set ZERODHA_API_KEY and ZERODHA_API_SECRET in the MCP server configuration and restart it.'
+      );
+    }
+    return this.name === DEFAULT_ACCOUNT_NAME
+      ? new NotAuthenticatedError('Not logged in to Kite')
+      : new NotAuthenticatedError(
+        `Not logged in to Kite account "${this.name}"`,
+        `Call get_login_url with account "${this.name}", ask the user to open login_url and log in, then call complete_login with the same account and the request_token or the URL they were redirected to.`
+      );
+  }
+
+  private requireAuth(): ZerodhaAuth {
+    if (!this.auth) {
+      throw this.notAuthenticated();
+    }
+    return this.auth;
+  }
+
+  status(): any {
+    const session = this.current?.tokenProvider.status;
+    return {
+      authenticated: session?.state === 'active',
+      credentials_configured: this.auth !== null,
+      session: session ?? null,
+      token_store: this.tokenStore?.file ?? null,
+      pending_login: this.pendingLogin,
+      ...(this.lastLoginError && { last_login_error: this.lastLoginError }),
+    };
+  }
+
+  /**
+   * The Kite login URL, listening for the redirect when the redirect URL is
+   * a local one
+   */
+  loginUrl(): { login_url: string; redirect_url?: string } {
+    const auth = this.requireAuth();
+    if (this.callbackUrl) {
+      const { login_url, redirect_url } = this.startLoginListener(this.callbackUrl);
+      return { login_url, redirect_url };
+    }
+    return { login_url: auth.getLoginUrl() };
+  }
+
+  /**
+   * Exchange a request token from the login redirect for a session
+   */
+  async login(requestToken: string): Promise<AccountSession> {
+    await this.completeLogin(await this.requireAuth().generateAccessToken(requestToken));
+    return this.current!;
+  }
+
+  /**
+   * Adopt a new access token: create the Kite client and everything built on
+   * it for the first session, or swap the token into the existing one. New
+   * logins are saved to the token store for the rest of the trading day.
+   */
+  private async completeLogin(session: Pick<AuthTokenResponse, 'access_token'> & Partial<AuthTokenResponse>, save = true): Promise<void> {
+    const accessToken = session.access_token;
+    if (!this.current) {
+      this.sessionStart ??= this.startSession(accessToken).finally(() => {
+        this.sessionStart = null;
+      });
+      await this.sessionStart;
+    }
+    this.current!.tokenProvider.setAccessToken(accessToken);
+    this.lastLoginError = null;
+
+    if (save) {
+      try {
+        await this.tokenStore!.save(session);
+      } catch (error) {
+        this.log.warning('⚠️  Could not save the session; it will not survive a restart', { error });
+      }
+    }
+  }
+
+  private async startSession(accessToken: string): Promise<void> {
+    const apiKey = this.config.apiKey!;
+    const config: ZerodhaConfig = {
+      apiKey,
+      apiSecret: this.config.apiSecret!,
+      accessToken,
+      baseUrl: this.config.baseUrl,
+      timeout: this.settings.timeout,
+      maxRetries: this.settings.maxRetries,
+      retryBaseDelayMs: this.settings.retryBaseDelayMs,
+    };
+
+    // The session is assigned at the end so a failure leaves the account unauthenticated
+    const ticker = new KiteTicker({ apiKey, accessToken, url: this.settings.tickerUrl });
+    const tokenProvider = new SessionTokenProvider(accessToken);
+    const client = new ZerodhaClient(config, tokenProvider);
+    const instrumentMaster = new InstrumentMaster(client, this.settings.instrumentCacheDir);
+    const broker = await this.createBroker(client);
+    const riskLimits = this.config.riskLimits ?? await loadRiskLimits(this.config.riskLimitsFile ?? this.settings.riskLimitsFile);
+
+    this.current = {
+      client,
+      tokenProvider: this.watchTokenProvider(tokenProvider, ticker),
+      instrumentMaster,
+      optionChainBuilder: new OptionChainBuilder(client, instrumentMaster, this.settings.riskFreeRate),
+      broker,
+      orderPreviewBuilder: new OrderPreviewBuilder(client, broker, instrumentMaster),
+      marginEstimator: new MarginEstimator(client, broker),
+      riskEngine: new RiskEngine(broker, client, riskLimits),
+      tickHub: new TickHub(ticker, instrumentMaster, this.notify, this.settings.tickNotifyIntervalMs, this.uriPrefix),
+    };
+
+    try {
+      const profile = await client.getProfile();
+      this.log.info('✅ Successfully connected to Zerodha API', { user_id: profile.user_id, user_name: profile.user_name, broker: profile.broker });
+    } catch (error) {
+      this.log.warning('⚠️  Could not fetch the Zerodha profile', { error });
+    }
+  }
+
+  /**
+   * Listen on the redirect URL for the login redirect; the session starts as
+   * soon as it arrives
+   */
+  private startLoginListener(redirectUrl: string): PendingLogin {
+    if (this.pendingLogin) {
+      return this.pendingLogin;
+    }
+
+    const { loginUrl, session } = this.auth!.listenForLogin(redirectUrl, this.settings.loginTimeoutMs);
+    const pending = { login_url: loginUrl, redirect_url: redirectUrl, started_at: new Date().toISOString() };
+    this.pendingLogin = pending;
+
+    session
+      .then((authResponse) => this.completeLogin(authResponse))
+      .then(() => this.log.notice('✅ Logged in through the redirect'))
+      .catch((error) => {
+        this.lastLoginError = logger.redact(error instanceof Error ? error.message : String(error));
+        this.log.error('❌ Login through the redirect failed', { error });
+      })
+      .finally(() => {
+        if (this.pendingLogin === pending) {
+          this.pendingLogin = null;
+        }
+      });
+    return pending;
+  }
+
+  /**
+   * Track the session token. A token written to the account's token file
+   * after the current one expires is picked up without a restart.
+   */
+  private watchTokenProvider(provider: SessionTokenProvider, ticker: KiteTicker): SessionTokenProvider {
+    provider.on('expired', () => {
+      this.log.warning('❌ Kite rejected the access token. Log in again or update the token file to resume');
+    });
+    provider.on('token', (token: string) => {
+      this.log.notice('🔑 Access token updated');
+      ticker.setAccessToken(token);
+    });
+    provider.on('error', (error: Error) => this.log.error('❌ Failed to read the token file', { error }));
+    if (this.config.tokenFile) {
+      provider.watchFile(path.resolve(this.config.tokenFile));
+    }
+    return provider;
+  }
+
+  private async createBroker(client: ZerodhaClient): Promise<TradingBroker> {
+    if (!this.settings.paperTrading) {
+      return client;
+    }
+
+    const priceFeed = this.settings.paperReplayFile
+      ? await ReplayPriceFeed.fromFile(this.settings.paperReplayFile)
+      : client;
+    this.log.notice(`📝 Paper trading mode enabled (${this.settings.paperReplayFile ? 'replayed' : 'live'} prices)`);
+
+    return new PaperBroker(priceFeed, {
+      stateFile: this.config.paperStateFile,
+      initialCash: this.settings.paperInitialCash,
+    });
+  }
+}
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_QUERY_LIMIT = 100;
+
+export interface AuditClientInfo {
+  name?: string;
+  version?: string;
+  /** Name of the bearer token an HTTP client authenticated with */
+  token_name?: string;
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tool: string;
+  /** Account the call was made for */
+  account?: string;
+  client: AuditClientInfo | null;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  from?: string;
+  to?: string;
+  tool?: string;
+  symbol?: string;
+  account?: string;
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  errors: { line: number; reason: string }[];
+}
+
+interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return crypto.createHash('sha256').update(entry.prev_hash + JSON.stringify(entry)).digest('hex');
+}
+
+function mentionsSymbol(value: unknown, symbol: string): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  const tradingsymbol = typeof record.tradingsymbol === 'string' ? record.tradingsymbol.toUpperCase() : undefined;
+  const exchange = typeof record.exchange === 'string' ? record.exchange.toUpperCase() : undefined;
+  if (tradingsymbol && (tradingsymbol === symbol || `${exchange}:${tradingsymbol}` === symbol)) {
+    return true;
+  }
+  return Object.values(record).some((child) => mentionsSymbol(child, symbol));
+}
+
+/**
+ * Append-only JSONL audit log. Every entry carries the hash of the previous
+ * one, and a sidecar head file records the latest entry, so edited, removed
+ * or truncated lines are detected by verify().
+ */
+export class AuditLog {
+  private file: string;
+  private headFile: string;
+  private head: AuditHead | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(file?: string) {
+    this.file = file || path.join(os.homedir(), '.kitelink', 'audit.jsonl');
+    this.headFile = `${this.file}.head`;
+  }
+
+  private async readEntries(): Promise<string[]> {
+    try {
+      return (await fs.readFile(this.file, 'utf-8')).split('\n').filter((line) => line.trim() !== '');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async loadHead(): Promise<AuditHead> {
+    if (!this.head) {
+      const lines = await this.readEntries();
+      const last = lines.length > 0 ? JSON.parse(lines[lines.length - 1]) as AuditEntry : null;
+      this.head = last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS_HASH };
+    }
+    return this.head;
+  }
+
+  /**
+   * Record one tool call. Appends are serialised so the chain never forks.
+   */
+  async append(record: Pick<AuditEntry, 'tool' | 'account' | 'client' | 'arguments' | 'result' | 'error'>): Promise<AuditEntry> {
+    const write = this.writing.then(async () => {
+      const head = await this.loadHead();
+      const unsigned: Omit<AuditEntry, 'hash'> = {
+        seq: head.seq + 1,
+        timestamp: new Date().toISOString(),
+        tool: record.tool,
+        ...(record.account !== undefined && { account: record.account }),
+        client: record.client,
+        arguments: record.arguments ?? {},
+        ...(record.error !== undefined ? { error: record.error } : { result: record.result }),
+        prev_hash: head.hash,
+      };
+      const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: 0o600 });
+      await fs.writeFile(this.headFile, JSON.stringify({ seq: entry.seq, hash: entry.hash }), { encoding: 'utf-8', mode: 0o600 });
+      this.head = { seq: entry.seq, hash: entry.hash };
+      return entry;
+    });
+
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  async query(filters: AuditQuery): Promise<AuditEntry[]> {
+    const symbol = filters.symbol?.trim().toUpperCase();
+    const to = filters.to && filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to;
+    const limit = filters.limit ?? DEFAULT_QUERY_LIMIT;
+
+    return (await this.readEntries())
+      .map((line) => JSON.parse(line) as AuditEntry)
+      .filter((entry) =>
+        (!filters.from || entry.timestamp >= filters.from) &&
+        (!to || entry.timestamp <= to) &&
+        (!filters.tool || entry.tool === filters.tool) &&
+        (!filters.account || entry.account === filters.account) &&
+        (!symbol || mentionsSymbol(entry.arguments, symbol) || mentionsSymbol(entry.result, symbol))
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Walk the hash chain and report every line that does not fit it
+   */
+  async verify(): Promise<AuditVerification> {
+    const lines = await this.readEntries();
+    const errors: AuditVerification['errors'] = [];
+    let previousHash = GENESIS_HASH;
+    let expectedSeq = 1;
+
+    lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        errors.push({ line: lineNumber, reason: 'line is not valid JSON' });
+        return;
+      }
+
+      const { hash, ...unsigned } = entry;
+      if (entry.seq !== expectedSeq) {
+        errors.push({ line: lineNumber, reason: `expected seq ${expectedSeq} but found ${entry.seq}; entries were removed or reordered` });
+      }
+      if (entry.prev_hash !== previousHash) {
+        errors.push({ line: lineNumber, reason: 'prev_hash does not match the previous entry' });
+      }
+      if (hashEntry(unsigned) !== hash) {
+        errors.push({ line: lineNumber, reason: 'entry content does not match its hash; the line was edited' });
+      }
+
+      previousHash = hash;
+      expectedSeq = entry.seq + 1;
+    });
+
+    try {
+      const head = JSON.parse(await fs.readFile(this.headFile, 'utf-8')) as AuditHead;
+      if (head.hash !== previousHash || head.seq !== expectedSeq - 1) {
+        errors.push({ line: lines.length, reason: `log ends at seq ${expectedSeq - 1} but the head file records seq ${head.seq}; trailing entries were removed or altered` });
+      }
+    } catch {
+      if (lines.length > 0) {
+        errors.push({ line: 0, reason: `head file ${this.headFile} is missing or unreadable` });
+      }
+    }
+
+    return { valid: errors.length === 0, entries: lines.length, errors };
+  }
+}
@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+import { AuditLog } from './audit-log.js';
+
+// Load environment variables
+dotenv.config();
+
+async function main(): Promise<void> {
+  const file = process.argv[2] || process.env.AUDIT_LOG_FILE;
+  const result = await new AuditLog(file).verify();
+
+  if (result.valid) {
+    console.log(`✅ Audit log is intact (${result.entries} entries)`);
+    return;
+  }
+
+  console.error(`❌ Audit log failed verification (${result.entries} entries, ${result.errors.length} problems)`);
+  result.errors.forEach((error) => console.error(`   line ${error.line}: ${error.reason}`));
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('❌ Could not verify audit log:', error);
+  process.exit(1);
+});
@@ -1,16 +1,34 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { promises as fs } from 'fs';
-import path from 'path';
-import readline from 'readline';
+import { spawn } from 'child_process';
+import { fromAxiosError } from './errors.js';
+import { logger } from './logger.js';
+import { captureRequestToken } from './oauth-callback.js';
 
-interface AuthTokenResponse {
+export interface AuthTokenResponse {
   access_token: string;
   public_token: string;
   login_time: string;
+  user_id?: string;
 }
 
-class ZerodhaAuth {
+const DEFAULT_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+const log = logger.child('auth');
+
+/**
+ * Best-effort launch of the platform's default browser
+ */
+export function openInBrowser(url: string): void {
+  const [command, args] = process.platform === 'darwin' ? ['open', [url]]
+    : process.platform === 'win32' ? ['cmd', ['/c', 'start', '""', url]]
+    : ['xdg-open', [url]];
+  const child = spawn(command, args, { stdio: 'ignore', detached: true });
+  child.on('error', () => undefined);
+  child.unref();
+}
+
+export class ZerodhaAuth {
   private apiKey: string;
   private apiSecret: string;
   private baseUrl: string;
@@ -19,19 +37,24 @@ class ZerodhaAuth {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
     this.baseUrl = baseUrl;
+    logger.addSecret(apiSecret);
   }
 
   /**
    * Generate login URL for OAuth authentication
    */
-  getLoginUrl(): string {
-    return `https://kite.zerodha.com/connect/login?api_key=${this.apiKey}`;
+  getLoginUrl(redirectParams?: Record<string, string>): string {
+    const url = `https://kite.zerodha.com/connect/login?api_key=${this.apiKey}`;
+    return redirectParams
+      ? `${url}&redirect_params=${encodeURIComponent(new URLSearchParams(redirectParams).toString())}`
+      : url;
   }
 
   /**
    * Generate access token from request token
    */
   async generateAccessToken(requestToken: string): Promise<AuthTokenResponse> {
+    logger.addSecret(requestToken);
     try {
       const checksum = crypto
         .createHash('sha256')
@@ -56,57 +79,33 @@ class ZerodhaAuth {
       );
 
       if (response.data.status === 'success') {
+        logger.addSecret(response.data.data.access_token);
         return response.data.data;
       } else {
         throw new Error(`Authentication failed: ${response.data.message}`);
       }
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
-          `Failed to generate access token: ${error.response?.data?.message || error.message}`
-        );
+        const kiteError = fromAxiosError(error);
+        kiteError.operation = 'generate access token';
+        throw kiteError;
       }
       throw error;
     }
   }
 
   /**
-   * Interactive authentication flow
+   * Start listening on the Kite app's local redirect URL. Returns the URL to
+   * log in at and the session the captured redirect is exchanged for.
    */
-  async interactiveAuth(): Promise<string> {
-    console.log('\n🔐 Zerodha Authentication Required');
-    console.log('=====================================');
-    console.log('1. Open this URL in your browser:');
-    console.log(`   ${this.getLoginUrl()}`);
-    console.log('2. Complete the login process');
-    console.log('3. Copy the request_token from the redirect URL');
-    console.log('4. The URL will look like: https://your-redirect-url?request_token=XXXXXX&action=login&status=success');
-    console.log('\nWaiting for request token...\n');
-
-    return new Promise((resolve, reject) => {
-      const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout,
-      });
-
-      rl.question('Please paste the request_token here: ', async (requestToken: string) => {
-        rl.close();
-        
-        if (!requestToken || requestToken.trim() === '') {
-          reject(new Error('Request token is required'));
-          return;
-        }
-
-        try {
-          console.log('🔄 Generating access token...');
-          const authResponse = await this.generateAccessToken(requestToken.trim());
-          console.log('✅ Access token generated successfully!');
-          resolve(authResponse.access_token);
-        } catch (error) {
-          reject(error);
-        }
-      });
+  listenForLogin(redirectUrl: string, timeoutMs = DEFAULT_LOGIN_TIMEOUT_MS): { loginUrl: string; session: Promise<AuthTokenResponse> } {
+    // Kite echoes redirect_params back on the redirect, tying it to this login
+    const state = crypto.randomBytes(16).toString('hex');
+    const session = captureRequestToken({ redirectUrl, timeoutMs, state }, (requestToken) => {
+      log.info('🔄 Generating access token...');
+      return this.generateAccessToken(requestToken);
     });
+    return { loginUrl: this.getLoginUrl({ state }), session };
   }
 }
 
@@ -129,79 +128,3 @@ export async function validateAccessToken(
     return false;
   }
 }
-
-/**
- * Update .env file with new access token
- */
-async function updateEnvFile(accessToken: string): Promise<void> {
-  try {
-    const envPath = path.resolve(process.cwd(), '.env');
-    
-    let envContent = '';
-    try {
-      envContent = await fs.readFile(envPath, 'utf-8');
-    } catch (error) {
-      // .env file doesn't exist, create a basic one
-      envContent = `# Zerodha API Configuration
-ZERODHA_API_KEY=your_api_key
-ZERODHA_API_SECRET=your_api_secret
-ZERODHA_ACCESS_TOKEN=your_access_token
-
-# Optional: Request timeout in milliseconds
-REQUEST_TIMEOUT=30000
-
-# Optional: Base URL for Zerodha API
-ZERODHA_BASE_URL=https://api.kite.trade
-`;
-    }
-
-    // Update the access token line
-    const updatedContent = envContent.replace(
-      /ZERODHA_ACCESS_TOKEN=.*/,
-      `ZERODHA_ACCESS_TOKEN=${accessToken}`
-    );
-
-    // Write back to file
-    await fs.writeFile(envPath, updatedContent, 'utf-8');
-    console.log('📝 Access token saved to .env file');
-    
-  } catch (error) {
-    console.warn('⚠️  Could not update .env file:', error);
-    console.log(`📝 Please manually update your .env file with: ZERODHA_ACCESS_TOKEN=${accessToken}`);
-  }
-}
-
-export async function getValidAccessToken(
-  apiKey: string,
-  apiSecret: string,
-  existingToken?: string
-): Promise<string> {
-  const auth = new ZerodhaAuth(apiKey, apiSecret);
-
-  // If existing token is provided, validate it first
-  if (existingToken && existingToken !== 'your_access_token') {
-    console.log('🔍 Validating existing access token...');
-    const isValid = await validateAccessToken(apiKey, existingToken);
-    
-    if (isValid) {
-      console.log('✅ Existing access token is valid');
-      return existingToken;
-    } else {
-      console.log('❌ Existing access token is invalid or expired');
-    }
-  }
-
-  // Token is missing or invalid, need new one
-  console.log('🔄 Access token required. Starting authentication flow...');
-  
-  try {
-    const accessToken = await auth.interactiveAuth();
-    
-    // Update the .env file with the new token
-    await updateEnvFile(accessToken);
-    
-    return accessToken;
-  } catch (error) {
-    throw new Error(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
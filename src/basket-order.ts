@@ -0,0 +1,153 @@
+import type { TradingBroker } from './paper-broker.js';
+import { logger } from './logger.js';
+import type { Order, OrderPlacement } from './types/zerodha.js';
+
+// Statuses Kite passes through before an order is open, filled or rejected
+const TRANSIENT_STATUSES = ['PUT ORDER REQ RECEIVED', 'VALIDATION PENDING', 'OPEN PENDING'];
+const CANCELLABLE_STATUSES = [...TRANSIENT_STATUSES, 'OPEN', 'TRIGGER PENDING', 'AMO REQ RECEIVED'];
+const FAILED_STATUSES = ['REJECTED', 'CANCELLED'];
+const STATUS_POLL_INTERVAL_MS = 200;
+const STATUS_POLL_ATTEMPTS = 10;
+
+const log = logger.child('basket');
+
+export interface BasketLegRollback {
+  action: 'cancelled' | 'squared_off' | 'none';
+  /** The square-off order */
+  order_id?: string;
+  error?: string;
+}
+
+export interface BasketLegReport {
+  /** Position of the leg in the request */
+  index: number;
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: OrderPlacement['transaction_type'];
+  quantity: number;
+  status: string;
+  order_id?: string;
+  filled_quantity?: number;
+  average_price?: number;
+  error?: string;
+  rollback?: BasketLegRollback;
+}
+
+export interface BasketReport {
+  status: 'placed' | 'rolled_back';
+  /** The leg whose failure started the rollback */
+  failed_leg?: number;
+  legs: BasketLegReport[];
+}
+
+/**
+ * Places the legs of a multi-leg trade one after another, buying legs first
+ * so hedges are in place before the legs they protect. If a leg fails, the
+ * open legs are cancelled and, on request, filled legs are squared off.
+ */
+export class BasketOrderExecutor {
+  private broker: TradingBroker;
+
+  constructor(broker: TradingBroker) {
+    this.broker = broker;
+  }
+
+  async execute(legs: OrderPlacement[], squareOffOnFailure = false): Promise<BasketReport> {
+    const reports: BasketLegReport[] = legs.map((leg, index) => ({
+      index,
+      exchange: leg.exchange,
+      tradingsymbol: leg.tradingsymbol,
+      transaction_type: leg.transaction_type,
+      quantity: leg.quantity,
+      status: 'NOT PLACED',
+    }));
+    const sequence = legs
+      .map((leg, index) => ({ leg, index }))
+      .sort((a, b) => Number(a.leg.transaction_type === 'SELL') - Number(b.leg.transaction_type === 'SELL'));
+
+    const placed: number[] = [];
+    for (const { leg, index } of sequence) {
+      const report = reports[index];
+      try {
+        report.order_id = (await this.broker.placeOrder(leg)).order_id;
+        placed.push(index);
+        this.applyOrder(report, await this.settledOrder(report.order_id));
+      } catch (error) {
+        // Placed, but its status could not be read
+        report.status = report.order_id ? 'UNKNOWN' : 'FAILED';
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+
+      if (report.error || FAILED_STATUSES.includes(report.status)) {
+        log.warning(`⚠️  Basket leg ${index} failed; rolling back the placed legs`, { status: report.status, error: report.error });
+        for (const placedIndex of [...placed].reverse()) {
+          if (!FAILED_STATUSES.includes(reports[placedIndex].status)) {
+            reports[placedIndex].rollback = await this.rollBack(legs[placedIndex], reports[placedIndex], squareOffOnFailure);
+          }
+        }
+        return { status: 'rolled_back', failed_leg: index, legs: reports };
+      }
+    }
+
+    return { status: 'placed', legs: reports };
+  }
+
+  private applyOrder(report: BasketLegReport, order: Order | undefined): void {
+    if (!order) {
+      return;
+    }
+    report.status = order.status;
+    report.filled_quantity = order.filled_quantity;
+    report.average_price = order.average_price;
+    if (FAILED_STATUSES.includes(order.status) && order.status_message) {
+      report.error = order.status_message;
+    }
+  }
+
+  /**
+   * The latest state of an order once it has left Kite's transient statuses,
+   * or whatever it is when polling gives up
+   */
+  private async settledOrder(orderId: string): Promise<Order | undefined> {
+    let order: Order | undefined;
+    for (let attempt = 0; attempt < STATUS_POLL_ATTEMPTS; attempt++) {
+      const history = await this.broker.getOrderHistory(orderId);
+      order = history[history.length - 1];
+      if (!order || !TRANSIENT_STATUSES.includes(order.status)) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+    }
+    return order;
+  }
+
+  private async rollBack(leg: OrderPlacement, report: BasketLegReport, squareOff: boolean): Promise<BasketLegRollback> {
+    const rollback: BasketLegRollback = { action: 'none' };
+    try {
+      if (CANCELLABLE_STATUSES.includes(report.status) || report.status === 'UNKNOWN') {
+        await this.broker.cancelOrder(leg.variety, report.order_id!);
+        rollback.action = 'cancelled';
+        // Part of the order may have filled before the cancellation
+        this.applyOrder(report, await this.settledOrder(report.order_id!));
+      }
+
+      if (squareOff && report.filled_quantity) {
+        const { order_id } = await this.broker.placeOrder({
+          variety: 'regular',
+          exchange: leg.exchange,
+          tradingsymbol: leg.tradingsymbol,
+          transaction_type: leg.transaction_type === 'BUY' ? 'SELL' : 'BUY',
+          quantity: report.filled_quantity,
+          product: leg.product,
+          order_type: 'MARKET',
+        });
+        rollback.action = 'squared_off';
+        rollback.order_id = order_id;
+      }
+    } catch (error) {
+      rollback.error = error instanceof Error ? error.message : String(error);
+      log.error(`❌ Could not roll back basket leg ${report.index}`, { order_id: report.order_id, error });
+    }
+    return rollback;
+  }
+}
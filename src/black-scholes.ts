@@ -0,0 +1,117 @@
+export type OptionType = 'CE' | 'PE';
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+const IV_TOLERANCE = 1e-6;
+const IV_MAX_ITERATIONS = 100;
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 26.2.17)
+ */
+function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+function d1d2(spot: number, strike: number, years: number, rate: number, volatility: number): [number, number] {
+  const d1 = (Math.log(spot / strike) + (rate + 0.5 * volatility * volatility) * years) / (volatility * Math.sqrt(years));
+  return [d1, d1 - volatility * Math.sqrt(years)];
+}
+
+/**
+ * Black-Scholes price of a European option
+ */
+export function optionPrice(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number,
+  volatility: number
+): number {
+  const [d1, d2] = d1d2(spot, strike, years, rate, volatility);
+  const discount = strike * Math.exp(-rate * years);
+  return type === 'CE'
+    ? spot * normCdf(d1) - discount * normCdf(d2)
+    : discount * normCdf(-d2) - spot * normCdf(-d1);
+}
+
+/**
+ * Volatility that reproduces the given option price, found by bisection.
+ * Returns null when the price is outside the no-arbitrage bounds.
+ */
+export function impliedVolatility(
+  type: OptionType,
+  price: number,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number
+): number | null {
+  if (price <= 0 || spot <= 0 || years <= 0) {
+    return null;
+  }
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (price < optionPrice(type, spot, strike, years, rate, low) ||
+      price > optionPrice(type, spot, strike, years, rate, high)) {
+    return null;
+  }
+
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const diff = optionPrice(type, spot, strike, years, rate, mid) - price;
+    if (Math.abs(diff) < IV_TOLERANCE) {
+      return mid;
+    }
+    if (diff > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Option greeks. Theta is per calendar day, vega and rho per 1% change.
+ */
+export function greeks(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number,
+  volatility: number
+): Greeks {
+  const [d1, d2] = d1d2(spot, strike, years, rate, volatility);
+  const discount = strike * Math.exp(-rate * years);
+  const decay = -(spot * normPdf(d1) * volatility) / (2 * Math.sqrt(years));
+
+  return {
+    delta: type === 'CE' ? normCdf(d1) : normCdf(d1) - 1,
+    gamma: normPdf(d1) / (spot * volatility * Math.sqrt(years)),
+    theta: (type === 'CE'
+      ? decay - rate * discount * normCdf(d2)
+      : decay + rate * discount * normCdf(-d2)) / 365,
+    vega: (spot * normPdf(d1) * Math.sqrt(years)) / 100,
+    rho: (type === 'CE'
+      ? discount * years * normCdf(d2)
+      : -discount * years * normCdf(-d2)) / 100,
+  };
+}
@@ -0,0 +1,146 @@
+import type { Holding, Position } from './types/zerodha.js';
+
+export interface AccountShare {
+  account: string;
+  quantity: number;
+  average_price: number;
+  pnl: number;
+}
+
+export interface CombinedHolding {
+  instrument: string;
+  exchange: string;
+  tradingsymbol: string;
+  instrument_token: number;
+  quantity: number;
+  average_price: number;
+  last_price: number;
+  investment: number;
+  current_value: number;
+  pnl: number;
+  day_change: number;
+  accounts: AccountShare[];
+}
+
+export interface CombinedPosition {
+  instrument: string;
+  exchange: string;
+  tradingsymbol: string;
+  instrument_token: number;
+  product: string;
+  quantity: number;
+  last_price: number;
+  pnl: number;
+  m2m: number;
+  realised: number;
+  unrealised: number;
+  accounts: AccountShare[];
+}
+
+export interface CombinedHoldings {
+  holdings: CombinedHolding[];
+  totals: { investment: number; current_value: number; pnl: number; day_change: number };
+}
+
+export interface CombinedPositions {
+  positions: CombinedPosition[];
+  totals: { pnl: number; m2m: number };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function groupBy<T>(entries: { account: string; items: T[] }[], key: (item: T) => string): Map<string, { account: string; item: T }[]> {
+  const groups = new Map<string, { account: string; item: T }[]>();
+  for (const { account, items } of entries) {
+    for (const item of items) {
+      const group = groups.get(key(item)) ?? [];
+      group.push({ account, item });
+      groups.set(key(item), group);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Holdings summed per instrument across accounts, with each account's share.
+ * T1 shares count towards the quantity, as on the Kite holdings page.
+ */
+export function combineHoldings(entries: { account: string; items: Holding[] }[]): CombinedHoldings {
+  const holdings = [...groupBy(entries, (holding) => `${holding.exchange}:${holding.tradingsymbol}`)].map(([instrument, group]) => {
+    const { item: first } = group[0];
+    const quantityOf = (holding: Holding) => holding.quantity + (holding.t1_quantity ?? 0);
+    const quantity = group.reduce((sum, { item }) => sum + quantityOf(item), 0);
+    const investment = group.reduce((sum, { item }) => sum + quantityOf(item) * item.average_price, 0);
+    const currentValue = quantity * first.last_price;
+
+    return {
+      instrument,
+      exchange: first.exchange,
+      tradingsymbol: first.tradingsymbol,
+      instrument_token: first.instrument_token,
+      quantity,
+      average_price: quantity ? round(investment / quantity) : 0,
+      last_price: first.last_price,
+      investment: round(investment),
+      current_value: round(currentValue),
+      pnl: round(group.reduce((sum, { item }) => sum + item.pnl, 0)),
+      day_change: round(quantity * first.day_change),
+      accounts: group.map(({ account, item }) => ({
+        account,
+        quantity: quantityOf(item),
+        average_price: item.average_price,
+        pnl: item.pnl,
+      })),
+    };
+  });
+
+  return {
+    holdings,
+    totals: {
+      investment: round(holdings.reduce((sum, holding) => sum + holding.investment, 0)),
+      current_value: round(holdings.reduce((sum, holding) => sum + holding.current_value, 0)),
+      pnl: round(holdings.reduce((sum, holding) => sum + holding.pnl, 0)),
+      day_change: round(holdings.reduce((sum, holding) => sum + holding.day_change, 0)),
+    },
+  };
+}
+
+/**
+ * Net positions summed per instrument and product across accounts, with each
+ * account's share
+ */
+export function combinePositions(entries: { account: string; items: Position[] }[]): CombinedPositions {
+  const positions = [...groupBy(entries, (position) => `${position.exchange}:${position.tradingsymbol}:${position.product}`)].map(([, group]) => {
+    const { item: first } = group[0];
+    const sum = (field: 'quantity' | 'pnl' | 'm2m' | 'realised' | 'unrealised') =>
+      group.reduce((total, { item }) => total + (item[field] ?? 0), 0);
+
+    return {
+      instrument: `${first.exchange}:${first.tradingsymbol}`,
+      exchange: first.exchange,
+      tradingsymbol: first.tradingsymbol,
+      instrument_token: first.instrument_token,
+      product: first.product,
+      quantity: sum('quantity'),
+      last_price: first.last_price,
+      pnl: round(sum('pnl')),
+      m2m: round(sum('m2m')),
+      realised: round(sum('realised')),
+      unrealised: round(sum('unrealised')),
+      accounts: group.map(({ account, item }) => ({
+        account,
+        quantity: item.quantity,
+        average_price: item.average_price,
+        pnl: item.pnl,
+      })),
+    };
+  });
+
+  return {
+    positions,
+    totals: {
+      pnl: round(positions.reduce((total, position) => total + position.pnl, 0)),
+      m2m: round(positions.reduce((total, position) => total + position.m2m, 0)),
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import type { AxiosError } from 'axios';
+
+export const KITE_ERROR_TYPES = [
+  'TokenException',
+  'InputException',
+  'OrderException',
+  'NetworkException',
+  'PermissionException',
+  'GeneralException',
+  'DataException',
+] as const;
+
+export type KiteErrorType = typeof KITE_ERROR_TYPES[number];
+
+export interface KiteRequestContext {
+  status?: number;
+  method?: string;
+  path?: string;
+  operation?: string;
+}
+
+/**
+ * Base class for errors reported by Kite, or raised locally with the same
+ * meaning. `error_type` mirrors Kite's error_type field.
+ */
+export class KiteError extends Error {
+  readonly errorType: KiteErrorType;
+  status?: number;
+  method?: string;
+  path?: string;
+  operation?: string;
+
+  constructor(errorType: KiteErrorType, message: string, context: KiteRequestContext = {}) {
+    super(message);
+    this.name = errorType;
+    this.errorType = errorType;
+    Object.assign(this, context);
+  }
+}
+
+/** Session expired or access token invalid */
+export class TokenException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('TokenException', message, context);
+  }
+}
+
+/** Missing or invalid request parameters */
+export class InputException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('InputException', message, context);
+  }
+}
+
+/** Order could not be placed, modified or cancelled */
+export class OrderException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('OrderException', message, context);
+  }
+}
+
+/** Kite could not reach the exchange or OMS, or the request never reached Kite */
+export class NetworkException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('NetworkException', message, context);
+  }
+}
+
+/** The account or API key is not allowed to perform the action */
+export class PermissionException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('PermissionException', message, context);
+  }
+}
+
+/** Unclassified error */
+export class GeneralException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('GeneralException', message, context);
+  }
+}
+
+/** Kite could not produce or parse the requested data */
+export class DataException extends KiteError {
+  constructor(message: string, context?: KiteRequestContext) {
+    super('DataException', message, context);
+  }
+}
+
+/**
+ * Raised locally when a tool needs a Kite session and none has been established
+ */
+export class NotAuthenticatedError extends Error {
+  readonly hint: string;
+
+  constructor(message: string, hint = 'Call get_login_url, ask the user to open login_url and log in, then call complete_login with the request_token or the URL they were redirected to. auth_status shows the current state.') {
+    super(message);
+    this.name = 'NotAuthenticatedError';
+    this.hint = hint;
+  }
+}
+
+/**
+ * Thrown when an HTTP client's bearer token does not allow the tool it called
+ */
+export class ToolNotPermittedError extends Error {
+  readonly tool: string;
+
+  constructor(tool: string, tokenName: string) {
+    super(`The token "${tokenName}" is not allowed to call ${tool}`);
+    this.name = 'ToolNotPermittedError';
+    this.tool = tool;
+  }
+}
+
+const ERROR_CLASSES: Record<KiteErrorType, new (message: string, context?: KiteRequestContext) => KiteError> = {
+  TokenException,
+  InputException,
+  OrderException,
+  NetworkException,
+  PermissionException,
+  GeneralException,
+  DataException,
+};
+
+// Kite answers some failures without an error_type; infer one from the status
+function errorTypeForStatus(status: number): KiteErrorType {
+  if (status === 400) return 'InputException';
+  if (status === 403) return 'TokenException';
+  if (status === 429) return 'NetworkException';
+  if (status === 502 || status === 503 || status === 504) return 'NetworkException';
+  return 'GeneralException';
+}
+
+export function createKiteError(errorType: string | undefined, message: string, context: KiteRequestContext = {}): KiteError {
+  const type = KITE_ERROR_TYPES.includes(errorType as KiteErrorType)
+    ? errorType as KiteErrorType
+    : context.status ? errorTypeForStatus(context.status) : 'GeneralException';
+  return new ERROR_CLASSES[type](message, context);
+}
+
+/**
+ * Convert a failed axios request into the matching KiteError
+ */
+export function fromAxiosError(error: AxiosError<any>, data?: any): KiteError {
+  const context: KiteRequestContext = {
+    status: error.response?.status,
+    method: error.config?.method?.toUpperCase(),
+    path: error.config?.url?.split('?')[0],
+  };
+
+  if (!error.response) {
+    const reason = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timed out' : `failed (${error.code || error.message})`;
+    return new NetworkException(`Request to Kite ${reason}`, context);
+  }
+
+  const body = data ?? error.response.data;
+  return createKiteError(body?.error_type, body?.message || error.response.statusText || error.message, context);
+}
+
+export interface ToolErrorBody {
+  error: string;
+  message: string;
+  hint: string;
+  error_type?: KiteErrorType;
+  status?: number;
+  request?: { method?: string; path?: string };
+}
+
+const TOOL_ERRORS: Record<KiteErrorType, { code: string; hint: string }> = {
+  TokenException: {
+    code: 'TOKEN_EXPIRED',
+    hint: 'The Kite session has expired or the access token is invalid; tokens expire every morning. Log in again with get_login_url and complete_login.',
+  },
+  InputException: {
+    code: 'INVALID_INPUT',
+    hint: 'Check the arguments against the tool\'s input schema (instrument, quantity, price, product, order type, dates) and call the tool again.',
+  },
+  OrderException: {
+    code: 'ORDER_REJECTED',
+    hint: 'The order was rejected or is no longer open. Check get_order_history for its status message and get_margins for available funds before retrying.',
+  },
+  NetworkException: {
+    code: 'NETWORK_ERROR',
+    hint: 'Kite or the exchange could not be reached. Wait a few seconds and retry; check get_orders before retrying a write so it is not sent twice.',
+  },
+  PermissionException: {
+    code: 'PERMISSION_DENIED',
+    hint: 'The account or API key is not allowed to do this. Check that the segment is activated and the app has the required permissions.',
+  },
+  GeneralException: {
+    code: 'KITE_ERROR',
+    hint: 'Kite reported an error. Read the message for details and retry later if it looks temporary.',
+  },
+  DataException: {
+    code: 'DATA_ERROR',
+    hint: 'Kite could not return the requested data. Check the instrument and date range, or retry later.',
+  },
+};
+
+/**
+ * Describe a tool failure as a machine-readable code and a hint on how to fix the call
+ */
+export function describeToolError(error: unknown): ToolErrorBody {
+  if (error instanceof KiteError) {
+    const { code, hint } = TOOL_ERRORS[error.errorType];
+    return {
+      error: code,
+      message: error.operation ? `Failed to ${error.operation}: ${error.message}` : error.message,
+      hint,
+      error_type: error.errorType,
+      ...(error.status !== undefined && { status: error.status }),
+      ...((error.method || error.path) && { request: { method: error.method, path: error.path } }),
+    };
+  }
+
+  if (error instanceof NotAuthenticatedError) {
+    return { error: 'NOT_AUTHENTICATED', message: error.message, hint: error.hint };
+  }
+
+  if (error instanceof ToolNotPermittedError) {
+    return {
+      error: 'TOOL_NOT_PERMITTED',
+      message: error.message,
+      hint: 'Use only the tools listed for this client. Ask the server operator to add the tool to the token\'s tools if it is needed.',
+    };
+  }
+
+  return {
+    error: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+    hint: 'The server hit an unexpected error. Retry the call; if it keeps failing, check the server logs.',
+  };
+}
@@ -0,0 +1,126 @@
+import { InputException } from './errors.js';
+import type { GTTCondition, GTTOrder, GTTParams, GTTTriggerType } from './types/zerodha.js';
+
+const TRIGGER_TYPES: GTTTriggerType[] = ['single', 'two-leg'];
+const GTT_PRODUCTS: GTTOrder['product'][] = ['CNC', 'MIS', 'NRML'];
+
+/**
+ * A GTT as requested, before it is checked against the last traded price
+ */
+export interface GTTRequest {
+  type: GTTTriggerType;
+  condition: Omit<GTTCondition, 'last_price'>;
+  orders: GTTOrder[];
+}
+
+function parseLeg(raw: any, index: number, exchange: string, tradingsymbol: string): GTTOrder {
+  const label = `orders[${index}]`;
+  const transactionType = String(raw?.transaction_type ?? '').toUpperCase();
+  if (transactionType !== 'BUY' && transactionType !== 'SELL') {
+    throw new InputException(`${label}.transaction_type must be BUY or SELL`);
+  }
+  const quantity = Number(raw?.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new InputException(`${label}.quantity must be a whole number of at least 1`);
+  }
+  const price = Number(raw?.price);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new InputException(`${label}.price must be a limit price above 0`);
+  }
+  const product = String(raw?.product ?? 'CNC').toUpperCase() as GTTOrder['product'];
+  if (!GTT_PRODUCTS.includes(product)) {
+    throw new InputException(`${label}.product must be one of ${GTT_PRODUCTS.join(', ')}`);
+  }
+
+  return { exchange, tradingsymbol, transaction_type: transactionType, quantity, product, order_type: 'LIMIT', price };
+}
+
+/**
+ * Parse the arguments of place_gtt and modify_gtt. A single trigger has one
+ * trigger value and one order; a two-leg (OCO) trigger has a lower and an
+ * upper trigger value, each with its own order.
+ */
+export function parseGTTRequest(args: any): GTTRequest {
+  if (!args?.exchange || !args?.tradingsymbol || !args?.trigger_type || !Array.isArray(args?.trigger_values) || !Array.isArray(args?.orders)) {
+    throw new InputException('Required parameters: exchange, tradingsymbol, trigger_type, trigger_values, orders');
+  }
+
+  const type = String(args.trigger_type) as GTTTriggerType;
+  if (!TRIGGER_TYPES.includes(type)) {
+    throw new InputException(`Invalid trigger_type "${args.trigger_type}". Use one of: ${TRIGGER_TYPES.join(', ')}`);
+  }
+  const legs = type === 'single' ? 1 : 2;
+  const exchange = String(args.exchange).toUpperCase();
+  const tradingsymbol = String(args.tradingsymbol).toUpperCase();
+
+  const triggerValues = (args.trigger_values as unknown[]).map(Number);
+  if (triggerValues.length !== legs || triggerValues.some((value) => !Number.isFinite(value) || value <= 0)) {
+    throw new InputException(type === 'single'
+      ? 'A single GTT needs exactly one trigger value above 0'
+      : 'A two-leg GTT needs exactly two trigger values above 0: [lower, upper]');
+  }
+  if (args.orders.length !== legs) {
+    throw new InputException(type === 'single'
+      ? 'A single GTT needs exactly one order'
+      : 'A two-leg GTT needs exactly two orders, one for each trigger value');
+  }
+  const orders = (args.orders as unknown[]).map((order, index) => parseLeg(order, index, exchange, tradingsymbol));
+
+  if (type === 'two-leg') {
+    if (triggerValues[0] >= triggerValues[1]) {
+      throw new InputException(`The trigger values of a two-leg GTT must be [lower, upper]; got [${triggerValues.join(', ')}]`);
+    }
+    if (orders[0].transaction_type !== orders[1].transaction_type) {
+      throw new InputException('Both orders of a two-leg GTT must have the same transaction_type');
+    }
+  }
+
+  return { type, condition: { exchange, tradingsymbol, trigger_values: triggerValues }, orders };
+}
+
+/**
+ * Check the trigger values against the last traded price and complete the
+ * request with it. A trigger at the LTP would fire at once, and the two legs
+ * of an OCO trigger must sit on either side of it. A single trigger must be
+ * on the same side as its order's limit price: a SELL below the LTP is a
+ * stop-loss and a SELL above it a target, and the other way round for a BUY.
+ */
+export function withLastPrice(request: GTTRequest, lastPrice: number): GTTParams {
+  const [lower, upper] = request.condition.trigger_values;
+  const key = `${request.condition.exchange}:${request.condition.tradingsymbol}`;
+
+  if (request.type === 'single' && lower === lastPrice) {
+    throw new InputException(
+      `Trigger value ${lower} equals the last price of ${key}, so it would fire immediately. Set it above the last price for a target or below it for a stop-loss`
+    );
+  }
+  if (request.type === 'single') {
+    const [{ transaction_type: side, price }] = request.orders;
+    const below = price < lastPrice;
+    if (price !== lastPrice && below !== lower < lastPrice) {
+      const kind = below === (side === 'SELL') ? 'stop-loss' : 'target';
+      throw new InputException(
+        `The ${side} at ${price} is a ${kind}, so its trigger value must be ${below ? 'below' : 'above'} the last price ${lastPrice} of ${key}; got ${lower}`
+      );
+    }
+  }
+  if (request.type === 'two-leg' && !(lower < lastPrice && lastPrice < upper)) {
+    throw new InputException(
+      `The trigger values of a two-leg GTT must be below and above the last price ${lastPrice} of ${key}; got ${lower} and ${upper}`
+    );
+  }
+
+  return { ...request, condition: { ...request.condition, last_price: lastPrice } };
+}
+
+/**
+ * One-line description of a GTT for previews
+ */
+export function describeGTT(gtt: GTTRequest): string {
+  const { exchange, tradingsymbol, trigger_values: triggers } = gtt.condition;
+  const legs = gtt.orders.map((order, index) => {
+    const when = gtt.type === 'single' ? `at ${triggers[0]}` : `${index === 0 ? 'at or below' : 'at or above'} ${triggers[index]}`;
+    return `${order.transaction_type} ${order.quantity} @ ${order.price} (${order.product}) ${when}`;
+  });
+  return `${gtt.type} GTT on ${exchange}:${tradingsymbol}: ${legs.join('; ')}`;
+}
@@ -0,0 +1,72 @@
+import { InputException } from './errors.js';
+import type { Holding, HoldingAuthorisation } from './types/zerodha.js';
+
+// Authorisations last for the trading day, which follows IST
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export interface HoldingAuthorisationStatus {
+  exchange: string;
+  tradingsymbol: string;
+  isin: string;
+  /** Settled and T1 shares */
+  quantity: number;
+  authorised_quantity: number;
+  authorised_date: string | null;
+  /** Whether the authorisation is from today, the only day it can be used */
+  authorised_today: boolean;
+  /** Shares that cannot be sold without authorising them first */
+  unauthorised_quantity: number;
+}
+
+function sellableQuantity(holding: Holding): number {
+  return holding.quantity + (holding.t1_quantity ?? 0);
+}
+
+/**
+ * How much of each holding is authorised for selling today
+ */
+export function holdingsAuthorisationStatus(holdings: Holding[], now = new Date()): HoldingAuthorisationStatus[] {
+  const today = new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+  return holdings.map((holding) => {
+    const authorisedToday = Boolean(holding.authorised_date?.startsWith(today));
+    const authorised = authorisedToday ? holding.authorised_quantity : 0;
+    return {
+      exchange: holding.exchange,
+      tradingsymbol: holding.tradingsymbol,
+      isin: holding.isin,
+      quantity: sellableQuantity(holding),
+      authorised_quantity: holding.authorised_quantity,
+      authorised_date: holding.authorised_date || null,
+      authorised_today: authorisedToday,
+      unauthorised_quantity: Math.max(sellableQuantity(holding) - authorised, 0),
+    };
+  });
+}
+
+/**
+ * The holdings to authorise, each named by ISIN or tradingsymbol and checked
+ * against the quantity held. No holdings means all of them.
+ */
+export function buildHoldingsAuthorisation(args: any, holdings: Holding[]): HoldingAuthorisation[] {
+  if (args?.holdings === undefined) {
+    return [];
+  }
+  if (!Array.isArray(args.holdings)) {
+    throw new InputException('holdings must be a list of { isin or tradingsymbol, quantity }');
+  }
+
+  return (args.holdings as any[]).map((raw, index) => {
+    const name = String(raw?.isin || raw?.tradingsymbol || '').toUpperCase();
+    const holding = holdings.find((h) => h.isin === name || h.tradingsymbol === name);
+    if (!holding) {
+      throw new InputException(name ? `holdings[${index}]: ${name} is not in the holdings` : `holdings[${index}] needs an isin or tradingsymbol`);
+    }
+
+    const quantity = raw.quantity !== undefined ? Number(raw.quantity) : sellableQuantity(holding);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > sellableQuantity(holding)) {
+      throw new InputException(`holdings[${index}]: quantity must be a whole number from 1 to ${sellableQuantity(holding)}, the ${holding.tradingsymbol} shares held`);
+    }
+    return { isin: holding.isin, quantity };
+  });
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from './logger.js';
+
+// Shorter tokens are too easy to guess for a server that can place orders
+const MIN_TOKEN_LENGTH = 16;
+// Tools that show a token the accounts' login state and login URLs
+const LOGIN_TOOLS = ['auth_status', 'get_login_url', 'complete_login'];
+// Loggers whose events name accounts or carry login URLs
+const ACCOUNT_LOGGER = /:(account:.+|auth|token-store)$/;
+
+export interface HttpToken {
+  name: string;
+  token: string;
+  /** Tool names the token may call; "*" matches any run of characters, e.g. "get_*" */
+  tools: string[];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+/**
+ * Whether a token's tool patterns allow calling a tool
+ */
+export function toolAllowed(token: HttpToken, tool: string): boolean {
+  return token.tools.some((pattern) => patternToRegExp(pattern).test(tool));
+}
+
+/**
+ * Whether a token may read or subscribe to a live data resource: order
+ * updates need get_orders and ticks need subscribe_ticks
+ */
+export function resourceAllowed(token: HttpToken, uri: string): boolean {
+  return toolAllowed(token, uri.endsWith('/orders/updates') ? 'get_orders' : 'subscribe_ticks');
+}
+
+/**
+ * Whether a token may receive a logger's events; account and login events
+ * need one of the login tools
+ */
+export function logAllowed(token: HttpToken, loggerName: string): boolean {
+  return !ACCOUNT_LOGGER.test(loggerName) || LOGIN_TOOLS.some((tool) => toolAllowed(token, tool));
+}
+
+function parseToken(raw: unknown, index: number): HttpToken {
+  const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const name = typeof record.name === 'string' && record.name ? record.name : `token ${index + 1}`;
+  if (typeof record.token !== 'string' || record.token.length < MIN_TOKEN_LENGTH) {
+    throw new Error(`${name}: token must be a string of at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+  if (record.tools !== undefined && (!Array.isArray(record.tools) || !record.tools.every((tool) => typeof tool === 'string'))) {
+    throw new Error(`${name}: tools must be an array of tool names or patterns`);
+  }
+  return { name, token: record.token, tools: (record.tools as string[] | undefined) ?? ['*'] };
+}
+
+/**
+ * Bearer tokens for the HTTP transport: MCP_HTTP_TOKEN (every tool) and the
+ * tokens in MCP_HTTP_TOKENS_FILE (default ~/.kitelink/http-tokens.json):
+ *
+ *   { "tokens": [{ "name": "dashboard", "token": "...", "tools": ["get_*", "search_instruments"] }] }
+ */
+export async function loadHttpTokens(file?: string, env: NodeJS.ProcessEnv = process.env): Promise<HttpToken[]> {
+  const tokens: HttpToken[] = [];
+  if (env.MCP_HTTP_TOKEN) {
+    tokens.push(parseToken({ name: 'MCP_HTTP_TOKEN', token: env.MCP_HTTP_TOKEN }, 0));
+  }
+
+  const tokensFile = file || path.join(os.homedir(), '.kitelink', 'http-tokens.json');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(tokensFile, 'utf-8'));
+  } catch (error) {
+    if (!file && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return tokens;
+    }
+    throw new Error(`Failed to load HTTP tokens from ${tokensFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = (raw as { tokens?: unknown })?.tokens;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${tokensFile} must have a "tokens" array`);
+  }
+  entries.forEach((entry, index) => {
+    try {
+      tokens.push(parseToken(entry, index));
+    } catch (error) {
+      throw new Error(`${tokensFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Matches Authorization: Bearer headers against the configured tokens,
+ * comparing digests in constant time
+ */
+export class HttpTokenAuth {
+  private tokens: { token: HttpToken; digest: Buffer }[];
+
+  constructor(tokens: HttpToken[]) {
+    this.tokens = tokens.map((token) => ({ token, digest: HttpTokenAuth.digest(token.token) }));
+    tokens.forEach((token) => logger.addSecret(token.token));
+  }
+
+  private static digest(value: string): Buffer {
+    return crypto.createHash('sha256').update(value).digest();
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  authenticate(authorization: string | undefined): HttpToken | null {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+    if (!match) {
+      return null;
+    }
+    const digest = HttpTokenAuth.digest(match[1]);
+    return this.tokens.find((candidate) => crypto.timingSafeEqual(candidate.digest, digest))?.token ?? null;
+  }
+}
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { HttpToken, HttpTokenAuth } from './http-auth.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_HTTP_PORT = 3000;
+export const MCP_PATH = '/mcp';
+// Endpoints of the older HTTP+SSE transport, for clients without streamable HTTP
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const log = logger.child('http');
+
+export interface McpHttpServerOptions {
+  host: string;
+  port: number;
+  auth: HttpTokenAuth;
+  /** Build the MCP server for a new client session */
+  createServer: (token: HttpToken) => Server;
+}
+
+interface HttpSession {
+  token: HttpToken;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Serves MCP over streamable HTTP at /mcp, with the HTTP+SSE transport at
+ * /sse and /messages as a fallback. Every request needs a configured bearer
+ * token, and each client session gets its own MCP server.
+ */
+export class McpHttpServer {
+  private options: McpHttpServerOptions;
+  private httpServer: http.Server | null = null;
+  private sessions = new Map<string, HttpSession>();
+
+  constructor(options: McpHttpServerOptions) {
+    this.options = options;
+  }
+
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) {
+          log.error('❌ HTTP request failed', { method: req.method, url: req.url, error });
+        }
+        if (!res.headersSent) {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: status === 500 ? 'Internal server error' : error.message }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = server;
+
+    const { port } = server.address() as AddressInfo;
+    const host = this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host;
+    return `http://${host}:${port}${MCP_PATH}`;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map((session) => session.transport.close()));
+    this.sessions.clear();
+    if (this.httpServer) {
+      const server = this.httpServer;
+      this.httpServer = null;
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const token = this.options.auth.authenticate(req.headers.authorization);
+    if (!token) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: 'A valid bearer token is required' }));
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamable(req, res, token);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.openSseStream(res, token);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const transport = this.sessionTransport(url.searchParams.get('sessionId') ?? undefined, token, SSEServerTransport);
+      await transport.handlePostMessage(req, res, await readJsonBody(req));
+    } else {
+      throw new HttpError(404, `Not found. The MCP endpoint is ${MCP_PATH}`);
+    }
+  }
+
+  /**
+   * The transport of an existing session, which only the token that
+   * opened it may use
+   */
+  private sessionTransport<T extends HttpSession['transport']>(
+    sessionId: string | undefined,
+    token: HttpToken,
+    type: new (...args: any[]) => T
+  ): T {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof type)) {
+      throw new HttpError(404, 'Unknown or expired session');
+    }
+    if (session.token !== token) {
+      throw new HttpError(403, 'The session belongs to another token');
+    }
+    return session.transport;
+  }
+
+  private async handleStreamable(req: http.IncomingMessage, res: http.ServerResponse, token: HttpToken): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+    if (sessionId) {
+      const transport = this.sessionTransport(String(sessionId), token, StreamableHTTPServerTransport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, 'Missing mcp-session-id header; start a session with an initialize request');
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { token, transport });
+        log.info('🔌 HTTP client session started', { session: id, token: token.name });
+      },
+    });
+    transport.onclose = () => this.endSession(transport.sessionId);
+    await this.options.createServer(token).connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseStream(res: http.ServerResponse, token: HttpToken): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sessions.set(transport.sessionId, { token, transport });
+    transport.onclose = () => this.endSession(transport.sessionId);
+    log.info('🔌 SSE client session started', { session: transport.sessionId, token: token.name });
+    await this.options.createServer(token).connect(transport);
+  }
+
+  private endSession(sessionId: string | undefined): void {
+    if (sessionId && this.sessions.delete(sessionId)) {
+      log.info('🔌 HTTP client session ended', { session: sessionId });
+    }
+  }
+}
@@ -4,23 +4,82 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
-import { ZerodhaClient } from './zerodha-client.js';
-import { getValidAccessToken } from './auth.js';
-import { zerodhaTools } from './tools/zerodha-tools.js';
-import type { ZerodhaConfig } from './types/zerodha.js';
+import { DEFAULT_ACCOUNT_NAME, loadAccountsConfig } from './account-config.js';
+import { KiteAccount, type AccountSession, type AccountSettings } from './account.js';
+import { OrderConfirmationManager } from './order-confirmation.js';
+import { PaperBroker } from './paper-broker.js';
+import { BasketOrderExecutor } from './basket-order.js';
+import type { FundsCheck } from './margin-estimator.js';
+import { parseGTTRequest, withLastPrice } from './gtt.js';
+import { buildPositionConversion, validateConversionParams } from './position-conversion.js';
+import { buildHoldingsAuthorisation, holdingsAuthorisationStatus } from './holdings-authorisation.js';
+import { RiskLimitError } from './risk-engine.js';
+import { AuditLog } from './audit-log.js';
+import { combineHoldings, combinePositions } from './combined-portfolio.js';
+import { summariseLTP, summariseOHLC, summariseQuotes } from './market-data.js';
+import { InputException, ToolNotPermittedError, describeToolError } from './errors.js';
+import { HttpTokenAuth, loadHttpTokens, logAllowed, resourceAllowed, toolAllowed, type HttpToken } from './http-auth.js';
+import { DEFAULT_HTTP_PORT, McpHttpServer } from './http-server.js';
+import { isLogLevel, logger } from './logger.js';
+import { requestTokenFromRedirect } from './oauth-callback.js';
+import { DEFAULT_URI_PREFIX } from './tick-hub.js';
+import { ORDER_VARIETIES, authToolNames, crossAccountToolNames, writeToolNames, zerodhaTools } from './tools/zerodha-tools.js';
+import type { GTTParams, HistoricalInterval, OrderPlacement, OrderVariety, TickMode } from './types/zerodha.js';
 
-// Load environment variables
-dotenv.config();
+// Kite splits an iceberg order into this many legs at most
+const MIN_ICEBERG_LEGS = 2;
+const MAX_ICEBERG_LEGS = 10;
+// Largest basket Kite accepts
+const MAX_BASKET_LEGS = 20;
+
+const authLog = logger.child('auth');
+
+// Load environment variables; dotenv's banner would land on the stdio transport
+dotenv.config({ quiet: true });
+
+logger.configure({
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : undefined,
+  format: process.env.LOG_FORMAT === 'json' ? 'json' : undefined,
+  file: process.env.LOG_FILE,
+  maxFileBytes: process.env.LOG_MAX_FILE_BYTES ? parseInt(process.env.LOG_MAX_FILE_BYTES) : undefined,
+  maxFiles: process.env.LOG_MAX_FILES ? parseInt(process.env.LOG_MAX_FILES) : undefined,
+});
+
+/**
+ * One MCP client: the stdio client, or an HTTP session opened with a bearer token
+ */
+interface ClientConnection {
+  server: Server;
+  /** Token of an HTTP session; null over stdio, where every tool is allowed */
+  token: HttpToken | null;
+  /** Confirmation tokens can only be used by the client they were issued to */
+  confirmations: OrderConfirmationManager;
+  subscriptions: Set<string>;
+}
 
 class ZerodhaMCPServer {
-  private server: Server;
-  private zerodhaClient: ZerodhaClient | null = null;
+  private accounts = new Map<string, KiteAccount>();
+  private defaultAccount = DEFAULT_ACCOUNT_NAME;
+  private accountsFile: string | null = null;
+  private auditLog = new AuditLog(process.env.AUDIT_LOG_FILE);
+  private connections = new Set<ClientConnection>();
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * Create the MCP server for one client. Every client shares the accounts
+   * and their Kite sessions.
+   */
+  private createServer(token: HttpToken | null = null): Server {
+    const server = new Server(
       {
         name: 'mcp-z',
         version: '1.0.0',
@@ -29,75 +88,234 @@ class ZerodhaMCPServer {
       {
         capabilities: {
           tools: {},
+          logging: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
         },
       }
     );
 
-    this.setupHandlers();
-    // Note: initializeZerodhaClient() will be called in run() method
+    const connection: ClientConnection = {
+      server,
+      token,
+      confirmations: new OrderConfirmationManager(
+        process.env.ORDER_CONFIRMATION,
+        process.env.ORDER_CONFIRMATION_TTL_SECONDS ? parseInt(process.env.ORDER_CONFIRMATION_TTL_SECONDS) * 1000 : undefined
+      ),
+      subscriptions: new Set(),
+    };
+    this.setupHandlers(connection);
+    logger.attach(server, token ? (name) => logAllowed(token, name) : undefined);
+    this.connections.add(connection);
+    server.onclose = () => this.disconnect(connection);
+    return server;
   }
 
-  private async initializeZerodhaClient(): Promise<void> {
-    const apiKey = process.env.ZERODHA_API_KEY;
-    const apiSecret = process.env.ZERODHA_API_SECRET;
-    const existingAccessToken = process.env.ZERODHA_ACCESS_TOKEN;
-    
-    if (!apiKey || !apiSecret) {
-      console.error('❌ Missing required Zerodha configuration. Please set ZERODHA_API_KEY and ZERODHA_API_SECRET in your environment variables.');
-      process.exit(1);
+  /**
+   * Forget a client, releasing the live data only it was subscribed to
+   */
+  private disconnect(connection: ClientConnection): void {
+    this.connections.delete(connection);
+    logger.detach(connection.server);
+    for (const uri of connection.subscriptions) {
+      this.releaseResource(uri);
     }
+  }
 
-    try {
-      console.log('🚀 Initializing Zerodha MCP Server...');
-      
-      // Get valid access token (validates existing or generates new one)
-      const accessToken = await getValidAccessToken(apiKey, apiSecret, existingAccessToken);
-      
-      const config: ZerodhaConfig = {
-        apiKey,
-        apiSecret,
-        accessToken,
-        baseUrl: process.env.ZERODHA_BASE_URL,
-        timeout: process.env.REQUEST_TIMEOUT ? parseInt(process.env.REQUEST_TIMEOUT) : undefined,
-      };
+  private releaseResource(uri: string): void {
+    if (![...this.connections].some((connection) => connection.subscriptions.has(uri))) {
+      this.accountForUri(uri).session?.tickHub.unsubscribeResource(uri);
+    }
+  }
 
-      this.zerodhaClient = new ZerodhaClient(config);
-      
-      // Test the connection
-      console.log('🔍 Testing Zerodha API connection...');
-      const profile = await this.zerodhaClient.getProfile();
-      console.log(`✅ Successfully connected to Zerodha API`);
-      console.log(`👤 User: ${profile.user_name} (${profile.email})`);
-      console.log(`🏢 Broker: ${profile.broker}`);
-      
-    } catch (error) {
-      console.error('❌ Failed to initialize Zerodha client:', error);
-      process.exit(1);
+  private notifyResourceUpdated(uri: string): void {
+    for (const { server, subscriptions } of this.connections) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Load the accounts from KITE_ACCOUNTS_FILE, or the single account in the
+   * environment, and start a session for each one that has a valid token
+   */
+  private async initializeAccounts(): Promise<void> {
+    const config = await loadAccountsConfig(process.env.KITE_ACCOUNTS_FILE || undefined);
+    const settings: AccountSettings = {
+      timeout: process.env.REQUEST_TIMEOUT ? parseInt(process.env.REQUEST_TIMEOUT) : undefined,
+      maxRetries: process.env.KITE_MAX_RETRIES ? parseInt(process.env.KITE_MAX_RETRIES) : undefined,
+      retryBaseDelayMs: process.env.KITE_RETRY_BASE_DELAY_MS ? parseInt(process.env.KITE_RETRY_BASE_DELAY_MS) : undefined,
+      tickerUrl: process.env.KITE_TICKER_URL,
+      instrumentCacheDir: process.env.INSTRUMENT_CACHE_DIR,
+      riskFreeRate: process.env.OPTION_RISK_FREE_RATE ? parseFloat(process.env.OPTION_RISK_FREE_RATE) : undefined,
+      riskLimitsFile: process.env.RISK_LIMITS_FILE,
+      paperTrading: process.env.TRADING_MODE === 'paper',
+      paperReplayFile: process.env.PAPER_REPLAY_FILE,
+      paperInitialCash: process.env.PAPER_INITIAL_CASH ? parseFloat(process.env.PAPER_INITIAL_CASH) : undefined,
+      tickNotifyIntervalMs: process.env.TICK_NOTIFY_INTERVAL_MS ? parseInt(process.env.TICK_NOTIFY_INTERVAL_MS) : undefined,
+      loginTimeoutMs: process.env.KITE_LOGIN_TIMEOUT_SECONDS ? parseInt(process.env.KITE_LOGIN_TIMEOUT_SECONDS) * 1000 : undefined,
+      openBrowser: process.env.KITE_OPEN_BROWSER !== 'false',
+    };
+
+    logger.info('🚀 Initializing Zerodha MCP Server...', { accounts: config.accounts.map((account) => account.name), accounts_file: config.file });
+    this.defaultAccount = config.defaultAccount;
+    this.accountsFile = config.file;
+    for (const accountConfig of config.accounts) {
+      // The default account keeps the kite://ticks/ resources
+      const uriPrefix = accountConfig.name === config.defaultAccount
+        ? DEFAULT_URI_PREFIX
+        : `${DEFAULT_URI_PREFIX}accounts/${accountConfig.name}/`;
+      this.accounts.set(accountConfig.name, new KiteAccount(
+        accountConfig,
+        settings,
+        uriPrefix,
+        (uri) => this.notifyResourceUpdated(uri)
+      ));
     }
+
+    await Promise.all([...this.accounts.values()].map((account) => account.initialize()));
+  }
+
+  /**
+   * The account named by a tool's account argument, or the default account
+   */
+  private resolveAccount(name?: unknown): KiteAccount {
+    const accountName = name === undefined || name === null || name === '' ? this.defaultAccount : String(name);
+    const account = this.accounts.get(accountName);
+    if (!account) {
+      throw new InputException(`Unknown account "${accountName}". Configured accounts: ${[...this.accounts.keys()].join(', ')}`);
+    }
+    return account;
+  }
+
+  /**
+   * The account whose live data resources include this URI
+   */
+  private accountForUri(uri: string): KiteAccount {
+    const account = [...this.accounts.values()].find((candidate) => candidate.uriPrefix !== DEFAULT_URI_PREFIX && uri.startsWith(candidate.uriPrefix));
+    return account ?? this.resolveAccount();
   }
 
-  private setupHandlers(): void {
-    // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: zerodhaTools,
+  private setupHandlers(connection: ClientConnection): void {
+    const { server, token } = connection;
+
+    // Handle the client's choice of which log events to receive
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logger.setClientLevel(request.params.level, server);
+      return {};
+    });
+
+    // Handle tool listing; HTTP clients only see the tools their token allows
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: token ? zerodhaTools.filter((tool) => toolAllowed(token, tool.name)) : zerodhaTools,
     }));
 
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (!this.zerodhaClient) {
-        throw new Error('Zerodha client not initialized. Please check your configuration.');
+    // Handle live data resources; HTTP clients only see those their token's tools cover
+    const requireResource = (uri: string) => {
+      if (token && !resourceAllowed(token, uri)) {
+        throw new McpError(ErrorCode.InvalidRequest, `The token "${token.name}" is not allowed to access ${uri}`);
       }
+    };
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [...this.accounts.values()]
+        .flatMap((account) => account.session?.tickHub.listResources() ?? [])
+        .filter((resource) => !token || resourceAllowed(token, resource.uri)),
+    }));
 
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      requireResource(uri);
+      const hub = this.accountForUri(uri).requireSession().tickHub;
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(await hub.read(uri), null, 2) }],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      requireResource(request.params.uri);
+      await this.accountForUri(request.params.uri).requireSession().tickHub.subscribeResource(request.params.uri);
+      connection.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      connection.subscriptions.delete(request.params.uri);
+      this.releaseResource(request.params.uri);
+      return {};
+    });
+
+    // Handle tool execution
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+      const auditArgs = this.auditArguments(connection, name, args);
 
       try {
-        return await this.executeToolHandler(name, args);
+        const result = await this.executeToolHandler(name, args, connection);
+        await this.audit(connection, name, auditArgs, { result: JSON.parse(result.content[0].text) });
+        return result;
       } catch (error) {
-        throw new Error(`Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        const body = error instanceof RiskLimitError
+          ? {
+            error: 'RISK_LIMIT_VIOLATION',
+            message: error.message,
+            hint: 'Change the order so it fits the configured risk limits; get_risk_status shows current usage.',
+            violations: error.violations,
+          }
+          : describeToolError(error);
+        await this.audit(connection, name, auditArgs, { error: body.message });
+        return { ...this.formatResponse(body), isError: true };
       }
     });
   }
 
+  /**
+   * A confirmation is audited with the request it sends, so the entry can be
+   * found by the request's symbol
+   */
+  private auditArguments(connection: ClientConnection, name: string, args: any): any {
+    const pending = name === 'confirm_order' && args?.confirmation_token
+      ? connection.confirmations.peek(String(args.confirmation_token))
+      : undefined;
+    return pending ? { ...args, tool: pending.tool, account: pending.account, arguments: pending.arguments } : args;
+  }
+
+  private async audit(connection: ClientConnection, name: string, args: any, outcome: { result?: unknown; error?: string }): Promise<void> {
+    if (!writeToolNames.has(name)) {
+      return;
+    }
+
+    try {
+      const clientVersion = connection.server.getClientVersion();
+      // Confirmed requests belong to the account they were previewed for
+      const account = name === 'confirm_order'
+        ? args?.account
+        : args?.account ? String(args.account) : this.defaultAccount;
+      await this.auditLog.append({
+        tool: name,
+        account,
+        client: clientVersion || connection.token
+          ? {
+            name: clientVersion?.name,
+            version: clientVersion?.version,
+            ...(connection.token && { token_name: connection.token.name }),
+          }
+          : null,
+        arguments: args,
+        ...outcome,
+      });
+    } catch (error) {
+      logger.error('❌ Failed to write audit log entry', { error });
+    }
+  }
+
   private formatResponse(data: any) {
     return {
       content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
@@ -106,34 +324,261 @@ class ZerodhaMCPServer {
 
   private validateOrderIdParam(args: any): void {
     if (!args?.order_id) {
-      throw new Error('order_id parameter is required');
-    }
-  }
-
-  private async executeToolHandler(name: string, args: any): Promise<any> {
-    const client = this.zerodhaClient!;
-    
-    const handlers: Record<string, (args: any) => Promise<any>> = {
-      'get_profile': () => client.getProfile(),
-      'get_margins': () => client.getMargins(),
-      'get_instruments': (args) => client.getInstruments(args?.exchange ? String(args.exchange) : undefined),
-      'get_positions': () => client.getPositions(),
-      'get_holdings': () => client.getHoldings(),
-      'get_orders': () => client.getOrders(),
-      'get_order_history': (args) => this.handleOrderIdBasedTool(args, (orderId) => client.getOrderHistory(orderId)),
-      'place_order': (args) => this.handlePlaceOrder(args, client),
-      'modify_order': (args) => this.handleModifyOrder(args, client),
-      'cancel_order': (args) => this.handleCancelOrder(args, client),
-      'get_trades': () => client.getTrades(),
-      'get_order_trades': (args) => this.handleOrderIdBasedTool(args, (orderId) => client.getOrderTrades(orderId)),
+      throw new InputException('order_id parameter is required');
+    }
+  }
+
+  private parseTriggerIdParam(args: any): number {
+    const triggerId = Number(args?.trigger_id);
+    if (!args?.trigger_id || !Number.isInteger(triggerId)) {
+      throw new InputException('trigger_id parameter is required');
+    }
+    return triggerId;
+  }
+
+  private parseInstrumentsParam(args: any): string[] {
+    const raw = Array.isArray(args?.instruments)
+      ? args.instruments
+      : typeof args?.instruments === 'string' ? args.instruments.split(',') : [];
+
+    const instruments = raw.map((i: unknown) => String(i).trim()).filter(Boolean);
+    if (instruments.length === 0) {
+      throw new InputException('instruments parameter is required (e.g., ["NSE:INFY", "408065"])');
+    }
+
+    return [...new Set<string>(instruments.map((instrument: string) => {
+      if (/^\d+$/.test(instrument)) {
+        return instrument;
+      }
+      const [exchange, tradingsymbol, ...rest] = instrument.split(':');
+      if (!exchange || !tradingsymbol || rest.length > 0) {
+        throw new InputException(`Invalid instrument "${instrument}". Use EXCHANGE:TRADINGSYMBOL or an instrument token`);
+      }
+      return `${exchange.toUpperCase()}:${tradingsymbol.toUpperCase()}`;
+    }))];
+  }
+
+  private async executeToolHandler(name: string, args: any, connection: ClientConnection): Promise<any> {
+    const handlers: Record<string, (args: any, session: AccountSession) => Promise<any>> = {
+      'auth_status': async (args) => this.resolveAccount(args?.account).status(),
+      'get_login_url': async (args) => this.handleGetLoginUrl(args),
+      'complete_login': (args) => this.handleCompleteLogin(args),
+      'list_accounts': async () => this.listAccounts(),
+      'get_profile': (args, { client }) => client.getProfile(),
+      'get_margins': (args, { broker }) => broker.getMargins(),
+      'get_instruments': (args, session) => this.handleSearchInstruments({ exchange: args?.exchange, limit: args?.limit, offset: args?.offset }, session),
+      'search_instruments': (args, session) => this.handleSearchInstruments(args, session),
+      'get_quote': async (args, { client }) => summariseQuotes(await client.getQuotes(this.parseInstrumentsParam(args)), Boolean(args?.include_depth)),
+      'get_ohlc': async (args, { client }) => summariseOHLC(await client.getOHLC(this.parseInstrumentsParam(args))),
+      'get_ltp': async (args, { client }) => summariseLTP(await client.getLTP(this.parseInstrumentsParam(args))),
+      'get_historical_data': (args, session) => this.handleHistoricalData(args, session),
+      'get_option_chain': (args, session) => this.handleOptionChain(args, session),
+      'get_positions': (args, { broker }) => broker.getPositions(),
+      'get_holdings': (args, { client }) => client.getHoldings(),
+      'get_holdings_authorisation': async (args, { client }) => holdingsAuthorisationStatus(await client.getHoldings()),
+      'authorise_holdings': (args, session) => this.handleAuthoriseHoldings(args, session),
+      'get_combined_holdings': () => this.handleCombined(combineHoldings, (session) => session.client.getHoldings()),
+      'get_combined_positions': () => this.handleCombined(combinePositions, async (session) => (await session.broker.getPositions()).net),
+      'convert_position': (args, session) => this.withConfirmation(connection, 'convert_position', args, this.requireLiveBroker(session, 'Position conversions'), () => this.handleConvertPosition(args, session)),
+      'get_orders': (args, { broker }) => broker.getOrders(),
+      'get_order_history': (args, { broker }) => this.handleOrderIdBasedTool(args, (orderId) => broker.getOrderHistory(orderId)),
+      'place_order': (args, session) => this.withConfirmation(connection, 'place_order', args, session, () => this.handlePlaceOrder(args, session)),
+      'modify_order': (args, session) => this.withConfirmation(connection, 'modify_order', args, session, () => this.handleModifyOrder(args, session)),
+      'cancel_order': (args, session) => this.withConfirmation(connection, 'cancel_order', args, session, () => this.handleCancelOrder(args, session)),
+      'get_gtts': (args, { client }) => client.getGTTs(),
+      'get_gtt': (args, { client }) => client.getGTT(this.parseTriggerIdParam(args)),
+      'place_gtt': (args, session) => this.withConfirmation(connection, 'place_gtt', args, this.requireLiveBroker(session, 'GTTs'), () => this.handlePlaceGTT(args, session)),
+      'modify_gtt': (args, session) => this.withConfirmation(connection, 'modify_gtt', args, this.requireLiveBroker(session, 'GTTs'), () => this.handleModifyGTT(args, session)),
+      'delete_gtt': (args, session) => this.withConfirmation(connection, 'delete_gtt', args, this.requireLiveBroker(session, 'GTTs'), () => session.client.deleteGTT(this.parseTriggerIdParam(args))),
+      'place_basket': (args, session) => this.withConfirmation(connection, 'place_basket', args, session, () => this.handlePlaceBasket(args, session)),
+      'confirm_order': (args) => this.handleConfirmOrder(args, connection),
+      'subscribe_ticks': (args, session) => this.handleTickSubscription(args, session, true),
+      'unsubscribe_ticks': (args, session) => this.handleTickSubscription(args, session, false),
+      'get_order_margins': (args, { marginEstimator }) => marginEstimator.orderMargins(args),
+      'get_basket_margins': (args, { marginEstimator }) => marginEstimator.basketMargins(args),
+      'get_order_charges': (args, { marginEstimator }) => marginEstimator.charges(args),
+      'get_risk_status': (args, { riskEngine }) => riskEngine.getStatus(),
+      'get_audit_log': (args) => this.auditLog.query({
+        from: args?.from ? String(args.from) : undefined,
+        to: args?.to ? String(args.to) : undefined,
+        tool: args?.tool ? String(args.tool) : undefined,
+        symbol: args?.symbol ? String(args.symbol) : undefined,
+        account: args?.account ? String(args.account) : undefined,
+        limit: args?.limit ? Number(args.limit) : undefined,
+      }),
+      'get_diagnostics': async (args, { client, tokenProvider }) => ({ session: tokenProvider.status, ...client.getDiagnostics() }),
+      'get_trades': (args, { broker }) => broker.getTrades(),
+      'get_order_trades': (args, { broker }) => this.handleOrderIdBasedTool(args, (orderId) => broker.getOrderTrades(orderId)),
     };
 
     const handler = handlers[name];
     if (!handler) {
-      throw new Error(`Unknown tool: ${name}`);
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+    if (connection.token && !toolAllowed(connection.token, name)) {
+      throw new ToolNotPermittedError(name, connection.token.name);
+    }
+    // Tools for one account run against its session; the others need none
+    const session = authToolNames.has(name) || crossAccountToolNames.has(name)
+      ? null
+      : this.resolveAccount(args?.account).requireSession();
+
+    return this.formatResponse(await handler(args, session!));
+  }
+
+  private listAccounts(): any {
+    return {
+      default_account: this.defaultAccount,
+      accounts_file: this.accountsFile,
+      accounts: [...this.accounts.values()].map((account) => ({
+        name: account.name,
+        default: account.name === this.defaultAccount,
+        ...account.status(),
+      })),
+    };
+  }
+
+  /**
+   * Fetch one portfolio view from every account and combine it. Accounts
+   * that are not logged in or fail are reported instead of failing the call.
+   */
+  private async handleCombined<T, R>(
+    combine: (entries: { account: string; items: T[] }[]) => R,
+    fetch: (session: AccountSession) => Promise<T[]>
+  ): Promise<R & { accounts: string[]; errors: any[] }> {
+    const accounts = [...this.accounts.values()];
+    const results = await Promise.allSettled(accounts.map(async (account) => fetch(account.requireSession())));
+
+    const entries: { account: string; items: T[] }[] = [];
+    const errors: any[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        entries.push({ account: accounts[index].name, items: result.value });
+      } else {
+        errors.push({ account: accounts[index].name, ...describeToolError(result.reason) });
+      }
+    });
+    return { ...combine(entries), accounts: entries.map((entry) => entry.account), errors };
+  }
+
+  private handleGetLoginUrl(args: any): any {
+    const { login_url, redirect_url } = this.resolveAccount(args?.account).loginUrl();
+    if (redirect_url) {
+      return {
+        login_url,
+        redirect_url,
+        message: 'Ask the user to open login_url and log in. The redirect to redirect_url completes the login by itself; check auth_status afterwards. If the browser cannot reach redirect_url, call complete_login with the URL it was redirected to',
+      };
+    }
+
+    return {
+      login_url,
+      message: 'Ask the user to open login_url, log in and copy the URL the browser is redirected to, then call complete_login with it as redirect_url',
+    };
+  }
+
+  private async handleCompleteLogin(args: any): Promise<any> {
+    const account = this.resolveAccount(args?.account);
+
+    let requestToken: string;
+    if (args?.redirect_url) {
+      let redirect: URL;
+      try {
+        redirect = new URL(String(args.redirect_url));
+      } catch {
+        throw new InputException(`Invalid redirect_url "${args.redirect_url}"`);
+      }
+      requestToken = requestTokenFromRedirect(redirect);
+    } else if (args?.request_token) {
+      requestToken = String(args.request_token).trim();
+    } else {
+      throw new InputException('request_token or redirect_url parameter is required');
+    }
+
+    const session = await account.login(requestToken);
+    const profile = await session.client.getProfile();
+    authLog.notice('✅ Logged in to Kite', { account: account.name, user_id: profile.user_id });
+    return {
+      status: 'logged_in',
+      account: account.name,
+      user_id: profile.user_id,
+      user_name: profile.user_name,
+      session: session.tokenProvider.status,
+    };
+  }
+
+  private validateWriteParams(name: string, args: any): void {
+    if (name === 'place_order') {
+      this.validatePlaceOrderParams(args);
+    } else if (name === 'place_basket') {
+      this.parseBasketLegs(args);
+    } else if (name === 'place_gtt') {
+      parseGTTRequest(args);
+    } else if (name === 'modify_gtt') {
+      this.parseTriggerIdParam(args);
+      parseGTTRequest(args);
+    } else if (name === 'delete_gtt') {
+      this.parseTriggerIdParam(args);
+    } else if (name === 'convert_position') {
+      validateConversionParams(args);
+    } else {
+      this.validateOrderIdParam(args);
+    }
+  }
+
+  /**
+   * Run a write tool, first asking for confirmation when the tool's
+   * confirmation mode requires it
+   */
+  private async withConfirmation(connection: ClientConnection, name: string, args: any, session: AccountSession, execute: () => Promise<any>): Promise<any> {
+    const { server, confirmations } = connection;
+    const mode = confirmations.modeFor(name);
+    if (mode === 'off') {
+      return await execute();
+    }
+
+    this.validateWriteParams(name, args);
+    const preview = await session.orderPreviewBuilder.build(name, args);
+
+    // Hosts without elicitation support fall back to confirmation tokens
+    if (mode === 'elicit' && server.getClientCapabilities()?.elicitation) {
+      const warnings = preview.warnings.length > 0 ? `\nWarnings:\n- ${preview.warnings.join('\n- ')}` : '';
+      const result = await server.elicitInput({
+        message: `Confirm ${preview.summary}?${warnings}`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', title: 'Send this request to Kite' },
+          },
+          required: ['confirm'],
+        },
+      });
+
+      if (result.action !== 'accept' || result.content?.confirm !== true) {
+        return { status: 'not_confirmed', action: result.action, preview };
+      }
+      return await execute();
     }
 
-    return this.formatResponse(await handler(args));
+    return {
+      status: 'confirmation_required',
+      message: 'Review the preview, then call confirm_order with the confirmation_token to send this request',
+      ...confirmations.issue(name, args, preview, execute, this.resolveAccount(args?.account).name),
+      preview,
+    };
+  }
+
+  private async handleConfirmOrder(args: any, { confirmations }: ClientConnection): Promise<any> {
+    if (!args?.confirmation_token) {
+      throw new InputException('confirmation_token parameter is required');
+    }
+
+    const pending = confirmations.consume(String(args.confirmation_token));
+    return {
+      tool: pending.tool,
+      account: pending.account,
+      result: await pending.execute(),
+    };
   }
 
   private async handleOrderIdBasedTool(args: any, operation: (orderId: string) => Promise<any>): Promise<any> {
@@ -141,14 +586,150 @@ class ZerodhaMCPServer {
     return await operation(String(args.order_id));
   }
 
-  private async handlePlaceOrder(args: any, client: ZerodhaClient): Promise<any> {
+  private async handleSearchInstruments(args: any, session: AccountSession): Promise<any> {
+    const optionalString = (value: any) => value ? String(value) : undefined;
+    const optionalNumber = (value: any) => value !== undefined && value !== null && value !== '' ? Number(value) : undefined;
+
+    return await session.instrumentMaster.search({
+      query: optionalString(args?.query),
+      exchange: optionalString(args?.exchange),
+      segment: optionalString(args?.segment),
+      instrument_type: optionalString(args?.instrument_type),
+      expiry_from: optionalString(args?.expiry_from),
+      expiry_to: optionalString(args?.expiry_to),
+      strike_min: optionalNumber(args?.strike_min),
+      strike_max: optionalNumber(args?.strike_max),
+      limit: optionalNumber(args?.limit),
+      offset: optionalNumber(args?.offset),
+    });
+  }
+
+  private async handleHistoricalData(args: any, { client, instrumentMaster }: AccountSession): Promise<any> {
+    if (!args?.instrument || !args?.interval || !args?.from_date || !args?.to_date) {
+      throw new InputException('Required parameters: instrument, interval, from_date, to_date');
+    }
+
+    // Expired contracts are not in today's instrument dump, but Kite still serves their candles by token
+    const instrument = String(args.instrument).trim();
+    const token = /^\d+$/.test(instrument)
+      ? instrument
+      : String((await instrumentMaster.require(instrument)).instrument_token);
+    return await client.getHistoricalData(
+      token,
+      String(args.interval) as HistoricalInterval,
+      String(args.from_date),
+      String(args.to_date),
+      Boolean(args.continuous),
+      Boolean(args.oi)
+    );
+  }
+
+  private async handleOptionChain(args: any, session: AccountSession): Promise<any> {
+    if (!args?.underlying) {
+      throw new InputException('underlying parameter is required');
+    }
+
+    return await session.optionChainBuilder.build({
+      underlying: String(args.underlying),
+      expiry: args.expiry ? String(args.expiry) : undefined,
+      exchange: args.exchange ? String(args.exchange) : undefined,
+      strikesAroundAtm: args.strikes_around_atm ? Number(args.strikes_around_atm) : undefined,
+      riskFreeRate: args.risk_free_rate !== undefined ? Number(args.risk_free_rate) : undefined,
+      spotInstrument: args.spot_instrument ? String(args.spot_instrument) : undefined,
+    });
+  }
+
+  private validatePlaceOrderParams(args: any): void {
     if (!args?.exchange || !args?.tradingsymbol || !args?.transaction_type || 
         !args?.quantity || !args?.product || !args?.order_type) {
-      throw new Error('Required parameters: exchange, tradingsymbol, transaction_type, quantity, product, order_type');
+      throw new InputException('Required parameters: exchange, tradingsymbol, transaction_type, quantity, product, order_type');
     }
-    
-    const orderData = {
-      variety: String(args.variety || 'regular'),
+    this.validateVarietyParams(args);
+  }
+
+  /**
+   * Check the fields each variety, validity and order type needs, and that
+   * fields of other varieties are not silently ignored
+   */
+  private validateVarietyParams(args: any): void {
+    const variety = String(args.variety || 'regular');
+    if (!ORDER_VARIETIES.includes(variety as OrderVariety)) {
+      throw new InputException(`Invalid variety "${variety}". Use one of: ${ORDER_VARIETIES.join(', ')}`);
+    }
+    const has = (field: string) => args[field] !== undefined && args[field] !== null && args[field] !== '';
+    const isPositiveInteger = (value: unknown) => Number.isInteger(Number(value)) && Number(value) >= 1;
+
+    if (variety === 'co') {
+      if (!has('trigger_price')) {
+        throw new InputException('Cover orders need trigger_price, the stop-loss trigger');
+      }
+      if (!['MARKET', 'LIMIT'].includes(String(args.order_type))) {
+        throw new InputException('Cover orders must be MARKET or LIMIT orders');
+      }
+    }
+
+    if (variety === 'iceberg') {
+      if (!has('iceberg_legs') || !has('iceberg_quantity')) {
+        throw new InputException('Iceberg orders need iceberg_legs and iceberg_quantity');
+      }
+      const legs = Number(args.iceberg_legs);
+      if (!Number.isInteger(legs) || legs < MIN_ICEBERG_LEGS || legs > MAX_ICEBERG_LEGS) {
+        throw new InputException(`iceberg_legs must be a whole number from ${MIN_ICEBERG_LEGS} to ${MAX_ICEBERG_LEGS}`);
+      }
+      if (!isPositiveInteger(args.iceberg_quantity) || legs * Number(args.iceberg_quantity) < Number(args.quantity)) {
+        throw new InputException(`iceberg_quantity must be a whole number, and ${legs} legs of it must cover the quantity ${args.quantity}`);
+      }
+    } else if (has('iceberg_legs') || has('iceberg_quantity')) {
+      throw new InputException('iceberg_legs and iceberg_quantity only apply to the iceberg variety');
+    }
+
+    if (variety === 'auction' && !has('auction_number')) {
+      throw new InputException('Auction orders need auction_number');
+    } else if (variety !== 'auction' && has('auction_number')) {
+      throw new InputException('auction_number only applies to the auction variety');
+    }
+
+    if (args.validity === 'TTL' && !isPositiveInteger(args.validity_ttl)) {
+      throw new InputException('TTL orders need validity_ttl, the number of minutes the order stays open');
+    } else if (args.validity !== 'TTL' && has('validity_ttl')) {
+      throw new InputException('validity_ttl only applies to orders with TTL validity');
+    }
+
+    if (has('market_protection')) {
+      const protection = Number(args.market_protection);
+      if (!['MARKET', 'SL-M'].includes(String(args.order_type))) {
+        throw new InputException('market_protection only applies to MARKET and SL-M orders');
+      }
+      if (protection !== -1 && !(protection >= 0 && protection <= 100)) {
+        throw new InputException('market_protection must be a percentage from 0 to 100, or -1 to let Kite choose');
+      }
+    }
+  }
+
+  private async handleTickSubscription(args: any, { tickHub: hub }: AccountSession, subscribe: boolean): Promise<any> {
+    const instruments = this.parseInstrumentsParam(args);
+    const subscriptions = subscribe
+      ? await hub.subscribe(instruments, (args?.mode ? String(args.mode) : 'quote') as TickMode)
+      : await hub.unsubscribe(instruments);
+
+    await Promise.all([...this.connections].map(({ server }) => server.sendResourceListChanged().catch(() => undefined)));
+    return {
+      [subscribe ? 'subscribed' : 'unsubscribed']: subscriptions,
+      ...(subscribe && { hint: 'Read or subscribe to each uri to receive live ticks' }),
+    };
+  }
+
+  private async handlePlaceOrder(args: any, { broker, riskEngine }: AccountSession): Promise<any> {
+    const orderData = this.buildOrderPlacement(args);
+    await riskEngine.checkOrder(orderData);
+    return await broker.placeOrder(orderData);
+  }
+
+  private buildOrderPlacement(args: any): OrderPlacement {
+    this.validatePlaceOrderParams(args);
+
+    return {
+      variety: String(args.variety || 'regular') as OrderVariety,
       exchange: String(args.exchange),
       tradingsymbol: String(args.tradingsymbol),
       transaction_type: String(args.transaction_type) as 'BUY' | 'SELL',
@@ -158,14 +739,56 @@ class ZerodhaMCPServer {
       price: args.price ? Number(args.price) : undefined,
       trigger_price: args.trigger_price ? Number(args.trigger_price) : undefined,
       validity: args.validity ? String(args.validity) as 'DAY' | 'IOC' | 'TTL' : undefined,
+      validity_ttl: args.validity_ttl ? Number(args.validity_ttl) : undefined,
       disclosed_quantity: args.disclosed_quantity ? Number(args.disclosed_quantity) : undefined,
+      iceberg_legs: args.iceberg_legs ? Number(args.iceberg_legs) : undefined,
+      iceberg_quantity: args.iceberg_quantity ? Number(args.iceberg_quantity) : undefined,
+      auction_number: args.auction_number ? String(args.auction_number) : undefined,
+      market_protection: args.market_protection !== undefined && args.market_protection !== '' ? Number(args.market_protection) : undefined,
       tag: args.tag ? String(args.tag) : undefined,
     };
+  }
 
-    return await client.placeOrder(orderData);
+  /**
+   * Validate every leg of a basket up front, so a bad leg is reported before
+   * any order is placed
+   */
+  private parseBasketLegs(args: any): OrderPlacement[] {
+    if (!Array.isArray(args?.orders) || args.orders.length < 2) {
+      throw new InputException('orders parameter is required: a list of at least two orders with the place_order parameters');
+    }
+    if (args.orders.length > MAX_BASKET_LEGS) {
+      throw new InputException(`A basket can have at most ${MAX_BASKET_LEGS} orders`);
+    }
+
+    return args.orders.map((leg: any, index: number) => {
+      try {
+        return this.buildOrderPlacement(leg);
+      } catch (error) {
+        throw error instanceof InputException ? new InputException(`orders[${index}]: ${error.message}`) : error;
+      }
+    });
+  }
+
+  private async handlePlaceBasket(args: any, { broker, riskEngine, marginEstimator }: AccountSession): Promise<any> {
+    const legs = this.parseBasketLegs(args);
+    await riskEngine.checkBasket(legs);
+
+    let margin: FundsCheck | undefined;
+    if (args.check_margin !== false) {
+      margin = (await marginEstimator.estimateBasket(legs)).funds;
+      if (!margin.sufficient) {
+        throw new InputException(
+          `The basket needs ${margin.required} in margin and charges but only ${margin.available} is available. No orders were placed`
+        );
+      }
+    }
+
+    const report = await new BasketOrderExecutor(broker).execute(legs, Boolean(args.square_off_on_failure));
+    return { ...report, ...(margin && { margin }) };
   }
 
-  private async handleModifyOrder(args: any, client: ZerodhaClient): Promise<any> {
+  private async handleModifyOrder(args: any, { broker, riskEngine }: AccountSession): Promise<any> {
     this.validateOrderIdParam(args);
 
     const modifyData = {
@@ -176,30 +799,126 @@ class ZerodhaMCPServer {
       validity: args.validity ? String(args.validity) as 'DAY' | 'IOC' | 'TTL' : undefined,
     };
 
-    return await client.modifyOrder(
+    await riskEngine.checkModify(String(args.order_id), modifyData);
+    return await broker.modifyOrder(
       String(args.variety || 'regular'),
       String(args.order_id),
       modifyData
     );
   }
 
-  private async handleCancelOrder(args: any, client: ZerodhaClient): Promise<any> {
+  private async handleCancelOrder(args: any, { broker }: AccountSession): Promise<any> {
     this.validateOrderIdParam(args);
-    return await client.cancelOrder(String(args.variety || 'regular'), String(args.order_id));
+    return await broker.cancelOrder(String(args.variety || 'regular'), String(args.order_id));
+  }
+
+  /**
+   * GTTs and position conversions act on state at Kite that the paper
+   * broker does not simulate, so paper trading sessions may not use them
+   */
+  private requireLiveBroker(session: AccountSession, feature: string): AccountSession {
+    if (session.broker instanceof PaperBroker) {
+      throw new InputException(`${feature} are not simulated in paper trading mode. Switch TRADING_MODE to live to use them`);
+    }
+    return session;
+  }
+
+  /**
+   * Validate a GTT against the current LTP and the risk limits
+   */
+  private async prepareGTT(args: any, { client, riskEngine }: AccountSession): Promise<GTTParams> {
+    const request = parseGTTRequest(args);
+    const key = `${request.condition.exchange}:${request.condition.tradingsymbol}`;
+    const lastPrice = (await client.getLTP([key]))[key]?.last_price;
+    if (lastPrice === undefined) {
+      throw new InputException(`No last traded price for ${key}; check the exchange and tradingsymbol`);
+    }
+
+    const params = withLastPrice(request, lastPrice);
+    await riskEngine.checkGTT(params.orders);
+    return params;
+  }
+
+  private async handlePlaceGTT(args: any, session: AccountSession): Promise<any> {
+    return await session.client.placeGTT(await this.prepareGTT(args, session));
+  }
+
+  private async handleModifyGTT(args: any, session: AccountSession): Promise<any> {
+    const triggerId = this.parseTriggerIdParam(args);
+    return await session.client.modifyGTT(triggerId, await this.prepareGTT(args, session));
+  }
+
+  private async handleConvertPosition(args: any, { client }: AccountSession): Promise<any> {
+    const conversion = buildPositionConversion(args, (await client.getPositions()).net);
+    await client.convertPosition(conversion);
+    return { status: 'converted', ...conversion };
+  }
+
+  /**
+   * Start a CDSL authorisation, which the user completes by entering their
+   * TPIN on Kite before the holdings can be sold
+   */
+  private async handleAuthoriseHoldings(args: any, { client }: AccountSession): Promise<any> {
+    const holdings = buildHoldingsAuthorisation(args, await client.getHoldings());
+    const { request_id } = await client.authoriseHoldings(holdings);
+    return {
+      request_id,
+      authorisation_url: client.holdingsAuthorisationURL(request_id),
+      holdings: holdings.length > 0 ? holdings : 'all',
+      message: 'Open the authorisation URL and enter the CDSL TPIN to authorise these holdings for selling today',
+    };
   }
 
   async run(): Promise<void> {
-    // Initialize Zerodha client with authentication
-    await this.initializeZerodhaClient();
-    
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.log('🔥 Zerodha MCP Server running on stdio');
+    // Start a session for every account that has a valid token
+    await this.initializeAccounts();
+
+    const transport = process.argv.includes('--http') ? 'http' : process.env.MCP_TRANSPORT || 'stdio';
+    if (transport === 'http') {
+      await this.runHttp();
+      return;
+    }
+    if (transport !== 'stdio') {
+      throw new Error(`Unknown MCP_TRANSPORT "${transport}". Use stdio or http`);
+    }
+
+    await this.createServer().connect(new StdioServerTransport());
+    logger.info('🔥 Zerodha MCP Server running on stdio');
+  }
+
+  /**
+   * Serve any number of MCP clients over HTTP, each authenticated with one of
+   * the configured bearer tokens
+   */
+  private async runHttp(): Promise<void> {
+    const auth = new HttpTokenAuth(await loadHttpTokens(process.env.MCP_HTTP_TOKENS_FILE || undefined));
+    if (auth.size === 0) {
+      throw new Error('The HTTP transport needs at least one bearer token. Set MCP_HTTP_TOKEN or list tokens in MCP_HTTP_TOKENS_FILE');
+    }
+
+    const host = process.env.MCP_HTTP_HOST || '127.0.0.1';
+    const httpServer = new McpHttpServer({
+      host,
+      port: process.env.MCP_HTTP_PORT ? parseInt(process.env.MCP_HTTP_PORT) : DEFAULT_HTTP_PORT,
+      auth,
+      createServer: (token) => this.createServer(token),
+    });
+    const url = await httpServer.start();
+    if (!['127.0.0.1', 'localhost', '::1'].includes(host)) {
+      logger.warning(`⚠️  MCP_HTTP_HOST is ${host}: the server is reachable from other machines. Serve it behind TLS`);
+    }
+    logger.notice(`🔥 Zerodha MCP Server listening on ${url}`, { tokens: auth.size });
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, () => {
+        httpServer.close().finally(() => process.exit(0));
+      });
+    }
   }
 }
 
 const server = new ZerodhaMCPServer();
 server.run().catch((error) => {
-  console.error('❌ Server failed to start:', error);
+  logger.error('❌ Server failed to start', { error });
   process.exit(1);
 });
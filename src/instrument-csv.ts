@@ -0,0 +1,238 @@
+import { StringDecoder } from 'string_decoder';
+import type { Instrument } from './types/zerodha.js';
+
+export interface CsvRecord {
+  fields: string[];
+  line: number;
+  error?: string;
+}
+
+export interface MalformedRow {
+  line: number;
+  reason: string;
+}
+
+export interface InstrumentParseResult {
+  instruments: Instrument[];
+  malformedRows: MalformedRow[];
+}
+
+const REQUIRED_NUMERIC_FIELDS = ['instrument_token', 'exchange_token', 'last_price', 'tick_size', 'lot_size'];
+const OPTIONAL_NUMERIC_FIELDS = ['strike'];
+const REQUIRED_HEADERS = ['instrument_token', 'exchange_token', 'tradingsymbol', 'exchange'];
+
+/**
+ * Incremental RFC 4180 tokenizer. Chunks can be split anywhere, including
+ * inside quoted fields and between CR and LF.
+ */
+export class CsvRecordParser {
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private quotePending = false;
+  private fieldQuoted = false;
+  private pendingCR = false;
+  private recordHasContent = false;
+  private error: string | undefined;
+  private line = 1;
+  private recordLine = 1;
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (const char of chunk) {
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else {
+          if (char === '"') {
+            this.quotePending = true;
+          } else {
+            if (char === '\n') this.line++;
+            this.field += char;
+          }
+          continue;
+        }
+      }
+
+      switch (char) {
+        case ',':
+          this.endField();
+          break;
+        case '\r':
+          this.pendingCR = true;
+          this.endRecord(records);
+          break;
+        case '\n':
+          this.endRecord(records);
+          break;
+        case '"':
+          if (this.field === '' && !this.fieldQuoted) {
+            this.inQuotes = true;
+            this.fieldQuoted = true;
+            this.recordHasContent = true;
+          } else {
+            this.fail('unexpected quote inside an unquoted field');
+            this.field += char;
+          }
+          break;
+        default:
+          if (this.fieldQuoted) {
+            this.fail('unexpected character after closing quote');
+          }
+          this.field += char;
+          this.recordHasContent = true;
+      }
+    }
+
+    return records;
+  }
+
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    if (this.inQuotes && !this.quotePending) {
+      this.fail('unterminated quoted field');
+    }
+    this.inQuotes = false;
+    this.quotePending = false;
+    this.endRecord(records);
+    return records;
+  }
+
+  private fail(reason: string): void {
+    this.error = this.error || reason;
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+    this.recordHasContent = true;
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    if (this.recordHasContent || this.field !== '') {
+      this.endField();
+      records.push({ fields: this.fields, line: this.recordLine, ...(this.error && { error: this.error }) });
+    }
+
+    this.fields = [];
+    this.field = '';
+    this.fieldQuoted = false;
+    this.recordHasContent = false;
+    this.error = undefined;
+    this.line++;
+    this.recordLine = this.line;
+  }
+}
+
+function parseExpiry(value: string): Date | undefined | null {
+  if (value === '') {
+    return undefined;
+  }
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toInstrument(headers: string[], record: CsvRecord): Instrument | string {
+  if (record.error) {
+    return record.error;
+  }
+  if (record.fields.length !== headers.length) {
+    return `expected ${headers.length} fields, found ${record.fields.length}`;
+  }
+
+  const instrument: Record<string, unknown> = {};
+  for (let index = 0; index < headers.length; index++) {
+    const key = headers[index];
+    const value = record.fields[index].trim();
+
+    if (REQUIRED_NUMERIC_FIELDS.includes(key) || OPTIONAL_NUMERIC_FIELDS.includes(key)) {
+      if (value === '') {
+        if (REQUIRED_NUMERIC_FIELDS.includes(key)) {
+          return `missing ${key}`;
+        }
+        continue;
+      }
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        return `invalid ${key} "${value}"`;
+      }
+      instrument[key] = number;
+    } else if (key === 'expiry') {
+      const expiry = parseExpiry(value);
+      if (expiry === null) {
+        return `invalid expiry "${value}"`;
+      }
+      if (expiry) {
+        instrument.expiry = expiry;
+      }
+    } else {
+      instrument[key] = value;
+    }
+  }
+
+  return instrument as unknown as Instrument;
+}
+
+/**
+ * Stream-parse Kite's instrument dump. Rows that cannot be turned into a
+ * valid Instrument are skipped and reported in malformedRows.
+ */
+export async function parseInstrumentCsv(
+  source: AsyncIterable<string | Buffer> | string
+): Promise<InstrumentParseResult> {
+  const parser = new CsvRecordParser();
+  const decoder = new StringDecoder('utf8');
+  const instruments: Instrument[] = [];
+  const malformedRows: MalformedRow[] = [];
+  let headers: string[] | null = null;
+
+  const consume = (records: CsvRecord[]) => {
+    for (const record of records) {
+      if (!headers) {
+        headers = record.fields.map((header) => header.trim());
+        const missing = REQUIRED_HEADERS.filter((header) => !headers!.includes(header));
+        if (record.error || missing.length > 0) {
+          throw new Error(`Invalid instrument dump header: ${record.error || `missing ${missing.join(', ')}`}`);
+        }
+        continue;
+      }
+
+      const result = toInstrument(headers, record);
+      if (typeof result === 'string') {
+        malformedRows.push({ line: record.line, reason: result });
+      } else {
+        instruments.push(result);
+      }
+    }
+  };
+
+  if (typeof source === 'string') {
+    consume(parser.push(source));
+  } else {
+    for await (const chunk of source) {
+      consume(parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk)));
+    }
+    consume(parser.push(decoder.end()));
+  }
+  consume(parser.end());
+
+  return { instruments, malformedRows };
+}
@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZerodhaClient } from './zerodha-client.js';
+import { InputException } from './errors.js';
+import { logger } from './logger.js';
+import type { Instrument } from './types/zerodha.js';
+
+// Kite publishes the instrument dump around 08:30 IST (03:00 UTC) every trading day
+const PUBLISH_OFFSET_MS = 3 * 60 * 60 * 1000;
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 500;
+
+const log = logger.child('instruments');
+
+export interface InstrumentSearchFilters {
+  query?: string;
+  exchange?: string;
+  segment?: string;
+  instrument_type?: string;
+  expiry_from?: string;
+  expiry_to?: string;
+  strike_min?: number;
+  strike_max?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface InstrumentSearchResult {
+  total: number;
+  offset: number;
+  limit: number;
+  instruments: Instrument[];
+}
+
+/**
+ * Date of the instrument dump that is current at the given time, as yyyy-mm-dd.
+ * Before the morning publish this is still the previous day's dump.
+ */
+export function currentDumpDate(now = new Date()): string {
+  return new Date(now.getTime() - PUBLISH_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(`${value.trim()}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim()) || isNaN(date.getTime())) {
+    throw new InputException(`Invalid ${name} "${value}". Use yyyy-mm-dd`);
+  }
+  return date;
+}
+
+/**
+ * Local instrument master: the full instrument dump cached on disk once per
+ * trading day and indexed in memory by token, tradingsymbol and exchange.
+ */
+export class InstrumentMaster {
+  private client: ZerodhaClient;
+  private cacheDir: string;
+  private dumpDate: string | null = null;
+  private loading: Promise<void> | null = null;
+
+  private instruments: Instrument[] = [];
+  private byToken = new Map<number, Instrument>();
+  private bySymbol = new Map<string, Instrument>();
+  private byExchange = new Map<string, Instrument[]>();
+
+  constructor(client: ZerodhaClient, cacheDir?: string) {
+    this.client = client;
+    this.cacheDir = cacheDir || path.join(os.homedir(), '.kitelink', 'instruments');
+  }
+
+  /**
+   * Make sure the index holds the current day's dump, loading it from the
+   * disk cache or downloading it from Kite as needed
+   */
+  async ensureLoaded(): Promise<void> {
+    const date = currentDumpDate();
+    if (this.dumpDate === date) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load(date).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private cacheFile(date: string): string {
+    return path.join(this.cacheDir, `instruments-${date}.json`);
+  }
+
+  private async load(date: string): Promise<void> {
+    let instruments: Instrument[];
+    try {
+      instruments = JSON.parse(await fs.readFile(this.cacheFile(date), 'utf-8'), (key, value) =>
+        key === 'expiry' && typeof value === 'string' ? new Date(value) : value
+      );
+    } catch {
+      instruments = await this.client.getInstruments();
+      await this.writeCache(date, instruments);
+    }
+
+    this.buildIndex(instruments);
+    this.dumpDate = date;
+  }
+
+  private async writeCache(date: string, instruments: Instrument[]): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(this.cacheFile(date), JSON.stringify(instruments), 'utf-8');
+
+      // Dumps from previous days are never read again
+      const staleFiles = (await fs.readdir(this.cacheDir)).filter(
+        (file) => /^instruments-\d{4}-\d{2}-\d{2}\.json$/.test(file) && file !== path.basename(this.cacheFile(date))
+      );
+      await Promise.all(staleFiles.map((file) => fs.unlink(path.join(this.cacheDir, file))));
+    } catch (error) {
+      log.warning('⚠️  Could not write instrument cache', { error });
+    }
+  }
+
+  private buildIndex(instruments: Instrument[]): void {
+    this.instruments = instruments;
+    this.byToken.clear();
+    this.bySymbol.clear();
+    this.byExchange.clear();
+
+    for (const instrument of instruments) {
+      this.byToken.set(instrument.instrument_token, instrument);
+      this.bySymbol.set(`${instrument.exchange}:${instrument.tradingsymbol}`, instrument);
+
+      const exchangeInstruments = this.byExchange.get(instrument.exchange);
+      if (exchangeInstruments) {
+        exchangeInstruments.push(instrument);
+      } else {
+        this.byExchange.set(instrument.exchange, [instrument]);
+      }
+    }
+  }
+
+  /**
+   * Look up an instrument by token or EXCHANGE:TRADINGSYMBOL
+   */
+  async resolve(instrument: string | number): Promise<Instrument | undefined> {
+    await this.ensureLoaded();
+
+    const key = String(instrument).trim().toUpperCase();
+    if (/^\d+$/.test(key)) {
+      return this.byToken.get(Number(key));
+    }
+    return this.bySymbol.get(key);
+  }
+
+  /**
+   * Look up an instrument, failing with a descriptive error if it is unknown
+   */
+  async require(instrument: string | number): Promise<Instrument> {
+    const match = await this.resolve(instrument);
+    if (!match) {
+      throw new InputException(`Instrument ${instrument} not found. Use EXCHANGE:TRADINGSYMBOL (e.g., NSE:INFY) or an instrument token`);
+    }
+    return match;
+  }
+
+  /**
+   * All CE/PE contracts on an underlying (matched on the instrument name, e.g. NIFTY)
+   */
+  async findOptions(underlying: string, exchange: string): Promise<Instrument[]> {
+    await this.ensureLoaded();
+
+    const name = underlying.trim().toUpperCase();
+    return (this.byExchange.get(exchange.toUpperCase()) || []).filter(
+      (instrument) => instrument.name === name &&
+        (instrument.instrument_type === 'CE' || instrument.instrument_type === 'PE')
+    );
+  }
+
+  /**
+   * Filter instruments with paging
+   */
+  async search(filters: InstrumentSearchFilters): Promise<InstrumentSearchResult> {
+    await this.ensureLoaded();
+
+    const query = filters.query?.trim().toUpperCase();
+    const exchange = filters.exchange?.toUpperCase();
+    const segment = filters.segment?.toUpperCase();
+    const instrumentType = filters.instrument_type?.toUpperCase();
+    const expiryFrom = filters.expiry_from ? parseDate(filters.expiry_from, 'expiry_from') : undefined;
+    const expiryTo = filters.expiry_to ? parseDate(filters.expiry_to, 'expiry_to') : undefined;
+    const candidates = exchange ? this.byExchange.get(exchange) || [] : this.instruments;
+
+    const matches = candidates.filter((instrument) => {
+      if (query && !instrument.tradingsymbol.toUpperCase().includes(query) &&
+          !(instrument.name || '').toUpperCase().includes(query)) {
+        return false;
+      }
+      if (segment && instrument.segment !== segment) return false;
+      if (instrumentType && instrument.instrument_type !== instrumentType) return false;
+      if (expiryFrom && (!instrument.expiry || instrument.expiry < expiryFrom)) return false;
+      if (expiryTo && (!instrument.expiry || instrument.expiry > expiryTo)) return false;
+      if (filters.strike_min !== undefined && (instrument.strike ?? 0) < filters.strike_min) return false;
+      if (filters.strike_max !== undefined && (instrument.strike ?? 0) > filters.strike_max) return false;
+      return true;
+    });
+
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const offset = Math.max(filters.offset ?? 0, 0);
+    return {
+      total: matches.length,
+      offset,
+      limit,
+      instruments: matches.slice(offset, offset + limit),
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import path from 'path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+export type LogLevel = LoggingLevel;
+export type LogFormat = 'pretty' | 'json';
+export type LogFields = Record<string, unknown>;
+/** Decides from a logger's name whether a client may receive its events */
+export type LogFilter = (loggerName: string) => boolean;
+
+// Syslog severities as used by MCP, least severe first
+const LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /^(access_?token|request_?token|public_?token|refresh_?token|enc_?token|api_?secret|checksum|authorization|password)$/i;
+const SECRET_PATTERNS: [RegExp, string][] = [
+  // Authorization header: token api_key:access_token
+  [/\b(token\s+[\w-]+:)[^\s"',]+/gi, `$1${REDACTED}`],
+  // Query strings, form bodies, .env lines and JSON
+  [/\b((?:access_token|request_token|public_token|refresh_token|enctoken|api_secret|checksum|ZERODHA_ACCESS_TOKEN|ZERODHA_API_SECRET)["']?\s*[=:]\s*["']?)[^"'&\s,}]+/gi, `$1${REDACTED}`],
+];
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  /** Write to this file, rotated by size, instead of stderr */
+  file?: string;
+  maxFileBytes?: number;
+  maxFiles?: number;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LEVELS.includes(value as LogLevel);
+}
+
+function severity(level: LogLevel): number {
+  return LEVELS.indexOf(level);
+}
+
+/**
+ * Settings and output shared by a root logger and its children
+ */
+class LogSink {
+  level: LogLevel = 'info';
+  format: LogFormat = 'pretty';
+  file: string | null = null;
+  maxFileBytes = 10 * 1024 * 1024;
+  maxFiles = 5;
+  secrets = new Set<string>();
+  // Connected MCP clients, the minimum level each wants forwarded and the loggers it may see
+  servers = new Map<Server, { level: LogLevel; filter?: LogFilter }>();
+  private fileBytes: number | null = null;
+
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+    return result;
+  }
+
+  redactValue(value: unknown, key?: string): unknown {
+    if (key && SECRET_KEY.test(key) && value !== undefined && value !== null && value !== '') {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (value instanceof Error) {
+      const context = value as Error & { status?: number; path?: string };
+      return {
+        name: value.name,
+        message: this.redact(value.message),
+        ...(context.status !== undefined && { status: context.status }),
+        ...(context.path && { path: context.path }),
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactValue(v, k)]));
+    }
+    return value;
+  }
+
+  write(name: string, level: LogLevel, message: string, fields?: LogFields): void {
+    const redactedMessage = this.redact(message);
+    const redactedFields = fields ? this.redactValue(fields) as LogFields : undefined;
+
+    if (severity(level) >= severity(this.level)) {
+      this.output(this.format === 'json'
+        ? JSON.stringify({ time: new Date().toISOString(), level, logger: name, message: redactedMessage, ...redactedFields })
+        : `${new Date().toISOString()} ${level.toUpperCase().padEnd(7)} [${name}] ${redactedMessage}` +
+          (redactedFields && Object.keys(redactedFields).length > 0 ? ` ${JSON.stringify(redactedFields)}` : ''));
+    }
+
+    for (const [server, client] of this.servers) {
+      if (severity(level) >= severity(client.level) && (!client.filter || client.filter(name))) {
+        // Fails while the transport is not connected; the line above already recorded the event
+        server.sendLoggingMessage({ level, logger: name, data: { message: redactedMessage, ...redactedFields } }).catch(() => undefined);
+      }
+    }
+  }
+
+  private output(line: string): void {
+    if (!this.file) {
+      process.stderr.write(`${line}\n`);
+      return;
+    }
+
+    try {
+      this.rotateIfNeeded(Buffer.byteLength(line) + 1);
+      appendFileSync(this.file, `${line}\n`);
+      this.fileBytes! += Buffer.byteLength(line) + 1;
+    } catch (error) {
+      process.stderr.write(`${line}\n`);
+    }
+  }
+
+  /**
+   * Shift app.log to app.log.1, app.log.1 to app.log.2 and so on, dropping the oldest
+   */
+  private rotateIfNeeded(incoming: number): void {
+    const file = this.file!;
+    if (this.fileBytes === null) {
+      mkdirSync(path.dirname(file), { recursive: true });
+      this.fileBytes = existsSync(file) ? statSync(file).size : 0;
+    }
+    if (this.fileBytes === 0 || this.fileBytes + incoming <= this.maxFileBytes) {
+      return;
+    }
+
+    rmSync(`${file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${file}.${index}`)) {
+        renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      }
+    }
+    renameSync(file, `${file}.1`);
+    this.fileBytes = 0;
+  }
+
+  resetFile(file: string | null): void {
+    this.file = file;
+    this.fileBytes = null;
+  }
+}
+
+/**
+ * Leveled logger that never writes to stdout, which carries the stdio
+ * transport's JSON-RPC messages. Registered secrets and anything that looks
+ * like a token are redacted from every line and notification.
+ */
+export class Logger {
+  private sink: LogSink;
+  readonly name: string;
+
+  constructor(name: string, sink = new LogSink()) {
+    this.name = name;
+    this.sink = sink;
+  }
+
+  /**
+   * Logger for a component, sharing this logger's configuration
+   */
+  child(name: string): Logger {
+    return new Logger(`${this.name}:${name}`, this.sink);
+  }
+
+  configure(options: LoggerOptions): void {
+    this.sink.level = options.level ?? this.sink.level;
+    this.sink.format = options.format ?? this.sink.format;
+    this.sink.maxFileBytes = options.maxFileBytes ?? this.sink.maxFileBytes;
+    this.sink.maxFiles = options.maxFiles ?? this.sink.maxFiles;
+    if (options.file !== undefined) {
+      this.sink.resetFile(options.file ? path.resolve(options.file) : null);
+    }
+  }
+
+  /**
+   * Never log this value, e.g. the API secret or an access token
+   */
+  addSecret(value: string | undefined | null): void {
+    if (value && value.length >= 6) {
+      this.sink.secrets.add(value);
+    }
+  }
+
+  /**
+   * Forward log events to an MCP client as notifications/message. Until the
+   * client sends logging/setLevel, only notable events are forwarded. A
+   * filter limits the client to the loggers it may see.
+   */
+  attach(server: Server, filter?: LogFilter): void {
+    this.sink.servers.set(server, { level: 'notice', filter });
+  }
+
+  detach(server: Server): void {
+    this.sink.servers.delete(server);
+  }
+
+  /**
+   * Minimum level forwarded to a client (or every client), as requested with
+   * logging/setLevel
+   */
+  setClientLevel(level: LogLevel, server?: Server): void {
+    for (const attached of server ? [server] : this.sink.servers.keys()) {
+      const client = this.sink.servers.get(attached);
+      if (client) {
+        client.level = level;
+      }
+    }
+  }
+
+  redact(text: string): string {
+    return this.sink.redact(text);
+  }
+
+  log(level: LogLevel, message: string, fields?: LogFields): void {
+    this.sink.write(this.name, level, message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  notice(message: string, fields?: LogFields): void {
+    this.log('notice', message, fields);
+  }
+
+  warning(message: string, fields?: LogFields): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+}
+
+export const logger = new Logger('kitelink');
@@ -0,0 +1,184 @@
+import { ZerodhaClient } from './zerodha-client.js';
+import { InputException } from './errors.js';
+import type { TradingBroker } from './paper-broker.js';
+import type { BasketMargin, ChargesOrder, ContractNoteEntry, MarginOrder, OrderCharges, OrderMargin, OrderPlacement, OrderVariety } from './types/zerodha.js';
+
+type FundsSegment = 'equity' | 'commodity';
+
+/**
+ * What a set of orders needs against the funds available in their segments
+ */
+export interface FundsCheck {
+  segments: FundsSegment[];
+  available: number;
+  margin: number;
+  charges: number;
+  /** Margin plus charges */
+  required: number;
+  remaining_after: number;
+  sufficient: boolean;
+}
+
+export interface OrderMarginsEstimate {
+  orders: OrderMargin[];
+  total: number;
+  charges: number;
+  funds: FundsCheck;
+}
+
+export interface BasketMarginsEstimate extends BasketMargin {
+  /** Margin saved by the spread and hedge benefit */
+  benefit: number;
+  funds: FundsCheck;
+}
+
+export interface ChargesEstimate {
+  orders: ContractNoteEntry[];
+  totals: Omit<OrderCharges, 'transaction_tax_type' | 'gst'> & { gst: number };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function segmentOf(exchange: string): FundsSegment {
+  return exchange === 'MCX' ? 'commodity' : 'equity';
+}
+
+/**
+ * Parse a list of orders shaped like place_order arguments
+ */
+export function parseMarginOrders(args: any): MarginOrder[] {
+  if (!Array.isArray(args?.orders) || args.orders.length === 0) {
+    throw new InputException('orders parameter is required: a list of orders with the place_order parameters');
+  }
+
+  return (args.orders as any[]).map((raw, index) => {
+    if (!raw?.exchange || !raw?.tradingsymbol || !raw?.transaction_type || !raw?.quantity || !raw?.product || !raw?.order_type) {
+      throw new InputException(`orders[${index}] needs exchange, tradingsymbol, transaction_type, quantity, product and order_type`);
+    }
+    return {
+      variety: String(raw.variety || 'regular') as OrderVariety,
+      exchange: String(raw.exchange).toUpperCase(),
+      tradingsymbol: String(raw.tradingsymbol).toUpperCase(),
+      transaction_type: String(raw.transaction_type).toUpperCase() as OrderPlacement['transaction_type'],
+      quantity: Number(raw.quantity),
+      product: String(raw.product).toUpperCase() as OrderPlacement['product'],
+      order_type: String(raw.order_type).toUpperCase() as OrderPlacement['order_type'],
+      price: raw.price ? Number(raw.price) : 0,
+      trigger_price: raw.trigger_price ? Number(raw.trigger_price) : 0,
+    };
+  });
+}
+
+/**
+ * Pre-trade margin and charges estimates from Kite's calculators, compared
+ * against the funds the broker reports
+ */
+export class MarginEstimator {
+  private client: ZerodhaClient;
+  private broker: TradingBroker;
+
+  constructor(client: ZerodhaClient, broker: TradingBroker) {
+    this.client = client;
+    this.broker = broker;
+  }
+
+  /**
+   * Margin each order needs on its own
+   */
+  async orderMargins(args: any): Promise<OrderMarginsEstimate> {
+    const orders = parseMarginOrders(args);
+    const margins = await this.client.getOrderMargins(orders);
+    const total = margins.reduce((sum, margin) => sum + margin.total, 0);
+    const charges = margins.reduce((sum, margin) => sum + (margin.charges?.total ?? 0), 0);
+
+    return {
+      orders: margins,
+      total: round(total),
+      charges: round(charges),
+      funds: await this.checkFunds(orders, total, charges),
+    };
+  }
+
+  /**
+   * Margin for the orders placed together, with the benefit of spreads and
+   * hedges, by default also against the open positions
+   */
+  async basketMargins(args: any): Promise<BasketMarginsEstimate> {
+    return this.estimateBasket(parseMarginOrders(args), args?.consider_positions !== false);
+  }
+
+  /**
+   * Basket margin for orders that are already parsed, such as basket order legs
+   */
+  async estimateBasket(orders: MarginOrder[], considerPositions = true): Promise<BasketMarginsEstimate> {
+    const basket = await this.client.getBasketMargins(orders.map((order) => ({
+      variety: order.variety,
+      exchange: order.exchange,
+      tradingsymbol: order.tradingsymbol,
+      transaction_type: order.transaction_type,
+      quantity: order.quantity,
+      product: order.product,
+      order_type: order.order_type,
+      price: order.price ?? 0,
+      trigger_price: order.trigger_price ?? 0,
+    })), considerPositions);
+    const charges = basket.charges?.total ?? basket.orders.reduce((sum, margin) => sum + (margin.charges?.total ?? 0), 0);
+
+    return {
+      ...basket,
+      benefit: round(basket.initial.total - basket.final.total),
+      funds: await this.checkFunds(orders, basket.final.total, charges),
+    };
+  }
+
+  /**
+   * Brokerage, taxes and fees of the orders if they fill at their price, or
+   * at the LTP when they have none
+   */
+  async charges(args: any): Promise<ChargesEstimate> {
+    const orders = parseMarginOrders(args);
+    const unpriced = [...new Set(orders.filter((order) => !order.price).map((order) => `${order.exchange}:${order.tradingsymbol}`))];
+    const ltps = unpriced.length > 0 ? await this.client.getLTP(unpriced) : {};
+
+    const priced: ChargesOrder[] = orders.map((order, index) => {
+      const key = `${order.exchange}:${order.tradingsymbol}`;
+      const averagePrice = order.price || ltps[key]?.last_price;
+      if (!averagePrice) {
+        throw new InputException(`No last traded price for ${key}; pass a price for orders[${index}]`);
+      }
+      return { ...order, order_id: String(index + 1), average_price: averagePrice };
+    });
+
+    const entries = await this.client.getVirtualContractNote(priced);
+    const sum = (value: (charges: OrderCharges) => number) => round(entries.reduce((total, entry) => total + value(entry.charges), 0));
+    return {
+      orders: entries,
+      totals: {
+        brokerage: sum((charges) => charges.brokerage),
+        transaction_tax: sum((charges) => charges.transaction_tax),
+        exchange_turnover_charge: sum((charges) => charges.exchange_turnover_charge),
+        sebi_turnover_charge: sum((charges) => charges.sebi_turnover_charge),
+        stamp_duty: sum((charges) => charges.stamp_duty),
+        gst: sum((charges) => charges.gst.total),
+        total: sum((charges) => charges.total),
+      },
+    };
+  }
+
+  private async checkFunds(orders: MarginOrder[], margin: number, charges: number): Promise<FundsCheck> {
+    const segments = [...new Set(orders.map((order) => segmentOf(order.exchange)))];
+    const funds = await this.broker.getMargins();
+    const available = segments.reduce((sum, segment) => sum + (funds[segment]?.net ?? 0), 0);
+    const required = margin + charges;
+
+    return {
+      segments,
+      available: round(available),
+      margin: round(margin),
+      charges: round(charges),
+      required: round(required),
+      remaining_after: round(available - required),
+      sufficient: required <= available,
+    };
+  }
+}
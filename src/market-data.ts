@@ -0,0 +1,40 @@
+import type { LTPQuote, MarketQuote, OHLCQuote } from './types/zerodha.js';
+
+/**
+ * A full quote as returned by get_quote; the depth book is only included
+ * when asked for
+ */
+export type QuoteSummary = Omit<MarketQuote, 'depth'> & Partial<Pick<MarketQuote, 'depth'>>;
+
+function mapQuotes<T, R>(quotes: Record<string, T>, map: (quote: T) => R): Record<string, R> {
+  return Object.fromEntries(Object.entries(quotes).map(([key, quote]) => [key, map(quote)]));
+}
+
+/**
+ * Reduce Kite's quotes to the typed fields, dropping whatever else the
+ * response carries
+ */
+export function summariseQuotes(quotes: Record<string, MarketQuote>, includeDepth = false): Record<string, QuoteSummary> {
+  return mapQuotes(quotes, (quote): QuoteSummary => ({
+    instrument_token: quote.instrument_token,
+    last_price: quote.last_price,
+    last_quantity: quote.last_quantity,
+    average_price: quote.average_price,
+    volume: quote.volume,
+    buy_quantity: quote.buy_quantity,
+    sell_quantity: quote.sell_quantity,
+    ohlc: quote.ohlc,
+    net_change: quote.net_change,
+    ...(quote.oi !== undefined && { oi: quote.oi, oi_day_high: quote.oi_day_high, oi_day_low: quote.oi_day_low }),
+    timestamp: quote.timestamp,
+    ...(includeDepth && { depth: quote.depth }),
+  }));
+}
+
+export function summariseOHLC(quotes: Record<string, OHLCQuote>): Record<string, OHLCQuote> {
+  return mapQuotes(quotes, (quote) => ({ instrument_token: quote.instrument_token, last_price: quote.last_price, ohlc: quote.ohlc }));
+}
+
+export function summariseLTP(quotes: Record<string, LTPQuote>): Record<string, LTPQuote> {
+  return mapQuotes(quotes, (quote) => ({ instrument_token: quote.instrument_token, last_price: quote.last_price }));
+}
@@ -0,0 +1,142 @@
+import http from 'http';
+import { InputException } from './errors.js';
+
+const LOCAL_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+export interface OAuthCallbackOptions {
+  /** Redirect URL registered for the Kite app, e.g. http://127.0.0.1:5000/kite/callback */
+  redirectUrl: string;
+  timeoutMs: number;
+  /** Value the redirect must echo back in `state`, guarding against forged callbacks */
+  state?: string;
+}
+
+function page(title: string, message: string): string {
+  const escape = (text: string) => text.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head>` +
+    `<body style="font-family: sans-serif; margin: 4em auto; max-width: 40em;"><h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`;
+}
+
+/**
+ * Parse and check a redirect URL; only plain-HTTP loopback addresses can be listened on
+ */
+export function parseRedirectUrl(redirectUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(redirectUrl);
+  } catch {
+    throw new Error(`Invalid redirect URL "${redirectUrl}"`);
+  }
+  if (url.protocol !== 'http:' || !LOCAL_HOSTS.includes(url.hostname)) {
+    throw new Error(`Redirect URL ${redirectUrl} must be http://127.0.0.1:<port>/<path> or http://localhost:<port>/<path> to be captured locally`);
+  }
+  return url;
+}
+
+/**
+ * Whether the login redirect to this URL can be captured by listening locally
+ */
+export function isLocalRedirectUrl(redirectUrl: string): boolean {
+  try {
+    parseRedirectUrl(redirectUrl);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract the request_token from the URL Kite redirected to after login,
+ * checking that the login succeeded and, when given, that `state` matches
+ */
+export function requestTokenFromRedirect(redirect: URL, state?: string): string {
+  const status = redirect.searchParams.get('status');
+  const requestToken = redirect.searchParams.get('request_token');
+  if (status !== 'success') {
+    throw new InputException(`Kite redirected with status "${status ?? 'missing'}". Log in again from the login URL`);
+  }
+  if (!requestToken) {
+    throw new InputException('The redirect URL has no request_token');
+  }
+  if (state && redirect.searchParams.get('state') !== state) {
+    throw new InputException('The redirect did not come from the login started by this server. Use the login URL it returned');
+  }
+  return requestToken;
+}
+
+/**
+ * Listen on the Kite app's redirect URL for the login redirect, hand its
+ * request_token to `exchange`, show the outcome in the browser and shut down.
+ * Redirects without `status=success` or with the wrong `state` are answered
+ * with an error page while waiting continues until the timeout.
+ */
+export function captureRequestToken<T>(options: OAuthCallbackOptions, exchange: (requestToken: string) => Promise<T>): Promise<T> {
+  const url = parseRedirectUrl(options.redirectUrl);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(url.port || 80);
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let exchanging = false;
+    const server = http.createServer();
+
+    const finish = (error: Error | null, value?: T) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      server.close();
+      server.closeIdleConnections();
+      error ? reject(error) : resolve(value as T);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Timed out after ${Math.round(options.timeoutMs / 1000)}s waiting for the Kite login redirect on ${url.origin}${url.pathname}`));
+    }, options.timeoutMs);
+
+    server.on('request', async (req, res) => {
+      const callback = new URL(req.url || '/', url.origin);
+      const respond = (status: number, title: string, message: string) => {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(page(title, message));
+      };
+
+      if (req.method !== 'GET' || callback.pathname !== url.pathname) {
+        respond(404, 'Not found', 'This server only handles the Kite login redirect.');
+        return;
+      }
+      if (settled || exchanging) {
+        respond(410, 'Login already handled', 'You can close this tab.');
+        return;
+      }
+
+      let requestToken: string;
+      try {
+        requestToken = requestTokenFromRedirect(callback, options.state);
+      } catch (error) {
+        respond(400, 'Login not completed', (error as Error).message);
+        return;
+      }
+
+      exchanging = true;
+      try {
+        const result = await exchange(requestToken);
+        respond(200, 'Logged in to Kite', 'The MCP server has a new access token. You can close this tab.');
+        finish(null, result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        respond(500, 'Login failed', message);
+        finish(error instanceof Error ? error : new Error(message));
+      }
+    });
+
+    server.on('error', (error: NodeJS.ErrnoException) => {
+      finish(error.code === 'EADDRINUSE'
+        ? new Error(`Cannot listen for the Kite login redirect: ${host}:${port} is already in use`)
+        : error);
+    });
+
+    server.listen(port, host);
+  });
+}
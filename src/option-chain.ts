@@ -0,0 +1,238 @@
+import { ZerodhaClient } from './zerodha-client.js';
+import { InstrumentMaster } from './instrument-master.js';
+import { greeks, impliedVolatility, OptionType } from './black-scholes.js';
+import { DataException, InputException } from './errors.js';
+import { logger } from './logger.js';
+import type { Instrument, MarketQuote } from './types/zerodha.js';
+
+// Options expire at market close, 15:30 IST (10:00 UTC) on the expiry date
+const EXPIRY_CLOSE_OFFSET_MS = 10 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const DEFAULT_RISK_FREE_RATE = 0.07;
+// Daily candles fetched to find the last trading day, enough to cover long weekends and holidays
+const PREVIOUS_OI_LOOKBACK_DAYS = 10;
+
+const log = logger.child('option-chain');
+
+// Spot instruments for underlyings whose name differs from their tradingsymbol
+const INDEX_SPOT_INSTRUMENTS: Record<string, string> = {
+  NIFTY: 'NSE:NIFTY 50',
+  BANKNIFTY: 'NSE:NIFTY BANK',
+  FINNIFTY: 'NSE:NIFTY FIN SERVICE',
+  MIDCPNIFTY: 'NSE:NIFTY MID SELECT',
+  SENSEX: 'BSE:SENSEX',
+  BANKEX: 'BSE:BANKEX',
+};
+
+export interface OptionChainRequest {
+  underlying: string;
+  expiry?: string;
+  exchange?: string;
+  strikesAroundAtm?: number;
+  riskFreeRate?: number;
+  spotInstrument?: string;
+}
+
+export interface OptionChainLeg {
+  tradingsymbol: string;
+  instrument_token: number;
+  ltp: number;
+  oi: number;
+  oi_change: number | null;
+  volume: number;
+  bid: number | null;
+  ask: number | null;
+  iv: number | null;
+  delta: number | null;
+  gamma: number | null;
+  theta: number | null;
+  vega: number | null;
+  rho: number | null;
+}
+
+export interface OptionChainRow {
+  strike: number;
+  CE: OptionChainLeg | null;
+  PE: OptionChainLeg | null;
+}
+
+export interface OptionChain {
+  underlying: string;
+  expiry: string;
+  spot: number;
+  atm_strike: number;
+  days_to_expiry: number;
+  risk_free_rate: number;
+  lot_size: number;
+  rows: OptionChainRow[];
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds option chains for an underlying and expiry from the instrument
+ * master and live quotes, with Black-Scholes implied volatility and greeks.
+ */
+export class OptionChainBuilder {
+  private client: ZerodhaClient;
+  private instrumentMaster: InstrumentMaster;
+  private defaultRiskFreeRate: number;
+
+  // Kite quotes carry no previous-day OI, so it comes from daily candles,
+  // fetched once per contract and day
+  private previousOiDate = '';
+  private previousOi = new Map<number, Promise<number | null>>();
+
+  constructor(client: ZerodhaClient, instrumentMaster: InstrumentMaster, defaultRiskFreeRate?: number) {
+    this.client = client;
+    this.instrumentMaster = instrumentMaster;
+    this.defaultRiskFreeRate = defaultRiskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  }
+
+  async build(request: OptionChainRequest): Promise<OptionChain> {
+    const underlying = request.underlying.trim().toUpperCase();
+    const exchange = (request.exchange || 'NFO').toUpperCase();
+    const rate = request.riskFreeRate ?? this.defaultRiskFreeRate;
+
+    const options = await this.instrumentMaster.findOptions(underlying, exchange);
+    if (options.length === 0) {
+      throw new InputException(`No ${exchange} options found for underlying ${underlying}`);
+    }
+
+    const expiry = this.selectExpiry(options, request.expiry);
+    const contracts = options.filter((option) => option.expiry && formatDate(option.expiry) === expiry);
+    const allStrikes = [...new Set(contracts.map((option) => option.strike ?? 0))].sort((a, b) => a - b);
+
+    const spotInstrument = request.spotInstrument || INDEX_SPOT_INSTRUMENTS[underlying] ||
+      `${exchange === 'BFO' ? 'BSE' : 'NSE'}:${underlying}`;
+    const spotQuote = (await this.client.getLTP([spotInstrument]))[spotInstrument];
+    if (!spotQuote) {
+      throw new DataException(`Could not fetch spot price from ${spotInstrument}. Pass spot_instrument explicitly`);
+    }
+    const spot = spotQuote.last_price;
+
+    const atmStrike = allStrikes.reduce((best, strike) =>
+      Math.abs(strike - spot) < Math.abs(best - spot) ? strike : best
+    );
+    const strikes = this.limitStrikes(allStrikes, atmStrike, request.strikesAroundAtm);
+    const selected = contracts.filter((option) => strikes.includes(option.strike ?? 0));
+
+    const [quotes, previousOi] = await Promise.all([
+      this.client.getQuotes(selected.map((option) => `${option.exchange}:${option.tradingsymbol}`)),
+      Promise.all(selected.map((option) => this.previousDayOi(option.instrument_token))),
+    ]);
+    const years = Math.max((new Date(expiry).getTime() + EXPIRY_CLOSE_OFFSET_MS - Date.now()) / YEAR_MS, 0);
+
+    const rows = strikes.map((strike) => {
+      const row: OptionChainRow = { strike, CE: null, PE: null };
+      selected.forEach((option, index) => {
+        const quote = quotes[`${option.exchange}:${option.tradingsymbol}`];
+        if (option.strike === strike && quote) {
+          row[option.instrument_type as OptionType] = this.buildLeg(option, quote, previousOi[index], spot, years, rate);
+        }
+      });
+      return row;
+    });
+
+    return {
+      underlying,
+      expiry,
+      spot,
+      atm_strike: atmStrike,
+      days_to_expiry: Number((years * 365).toFixed(2)),
+      risk_free_rate: rate,
+      lot_size: contracts[0].lot_size,
+      rows,
+    };
+  }
+
+  private selectExpiry(options: Instrument[], requested?: string): string {
+    const now = Date.now();
+    const expiries = [...new Set(
+      options
+        .filter((option) => option.expiry && option.expiry.getTime() + EXPIRY_CLOSE_OFFSET_MS > now)
+        .map((option) => formatDate(option.expiry!))
+    )].sort();
+
+    if (expiries.length === 0) {
+      throw new InputException('No unexpired contracts found');
+    }
+    if (!requested || requested.toLowerCase() === 'nearest') {
+      return expiries[0];
+    }
+    if (!expiries.includes(requested)) {
+      throw new InputException(`No contracts expiring on ${requested}. Available expiries: ${expiries.slice(0, 10).join(', ')}`);
+    }
+    return requested;
+  }
+
+  private limitStrikes(strikes: number[], atmStrike: number, strikesAroundAtm?: number): number[] {
+    if (!strikesAroundAtm || strikesAroundAtm <= 0) {
+      return strikes;
+    }
+    const atmIndex = strikes.indexOf(atmStrike);
+    return strikes.slice(Math.max(atmIndex - strikesAroundAtm, 0), atmIndex + strikesAroundAtm + 1);
+  }
+
+  /**
+   * OI at the close of the last trading day before today, or null when
+   * there is no earlier candle or the historical API is unavailable
+   */
+  private previousDayOi(instrumentToken: number): Promise<number | null> {
+    const today = new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+    if (this.previousOiDate !== today) {
+      this.previousOiDate = today;
+      this.previousOi.clear();
+    }
+
+    let oi = this.previousOi.get(instrumentToken);
+    if (!oi) {
+      const from = formatDate(new Date(Date.parse(today) - PREVIOUS_OI_LOOKBACK_DAYS * DAY_MS));
+      const to = formatDate(new Date(Date.parse(today) - DAY_MS));
+      oi = this.client.getHistoricalData(String(instrumentToken), 'day', from, to, false, true)
+        .then((candles) => candles.at(-1)?.oi ?? null)
+        .catch((error) => {
+          // Not cached, so the next chain tries again
+          this.previousOi.delete(instrumentToken);
+          log.debug('Could not fetch the previous day\'s OI', { instrument_token: instrumentToken, error });
+          return null;
+        });
+      this.previousOi.set(instrumentToken, oi);
+    }
+    return oi;
+  }
+
+  private buildLeg(option: Instrument, quote: MarketQuote, previousOi: number | null, spot: number, years: number, rate: number): OptionChainLeg {
+    const type = option.instrument_type as OptionType;
+    const strike = option.strike ?? 0;
+    const bid = quote.depth?.buy?.[0]?.price || null;
+    const ask = quote.depth?.sell?.[0]?.price || null;
+    const oi = quote.oi ?? 0;
+
+    const iv = impliedVolatility(type, quote.last_price, spot, strike, years, rate);
+    const legGreeks = iv !== null ? greeks(type, spot, strike, years, rate, iv) : null;
+    const round = (value: number | undefined, digits: number) =>
+      value === undefined ? null : Number(value.toFixed(digits));
+
+    return {
+      tradingsymbol: option.tradingsymbol,
+      instrument_token: option.instrument_token,
+      ltp: quote.last_price,
+      oi,
+      oi_change: previousOi === null ? null : oi - previousOi,
+      volume: quote.volume,
+      bid,
+      ask,
+      iv: iv !== null ? Number((iv * 100).toFixed(2)) : null,
+      delta: round(legGreeks?.delta, 4),
+      gamma: round(legGreeks?.gamma, 6),
+      theta: round(legGreeks?.theta, 4),
+      vega: round(legGreeks?.vega, 4),
+      rho: round(legGreeks?.rho, 4),
+    };
+  }
+}
@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { ZerodhaClient } from './zerodha-client.js';
+import { InstrumentMaster } from './instrument-master.js';
+import { InputException } from './errors.js';
+import type { TradingBroker } from './paper-broker.js';
+import { describeGTT, parseGTTRequest } from './gtt.js';
+import type { GTT, Instrument, Order } from './types/zerodha.js';
+
+export type ConfirmationMode = 'off' | 'token' | 'elicit';
+
+const CONFIRMATION_MODES: ConfirmationMode[] = ['off', 'token', 'elicit'];
+const DEFAULT_TTL_MS = 120 * 1000;
+// Limit prices further than this from LTP are flagged in previews
+const PRICE_DEVIATION_WARNING = 0.05;
+
+export interface OrderPreview {
+  tool: string;
+  summary: string;
+  instrument?: Pick<Instrument, 'instrument_token' | 'exchange' | 'tradingsymbol' | 'name' | 'instrument_type' | 'lot_size' | 'tick_size'>;
+  ltp?: number;
+  estimated_price?: number;
+  estimated_value?: number;
+  margin?: {
+    available: number;
+    estimated_required: number;
+    remaining_after: number;
+  };
+  current_order?: Pick<Order, 'order_id' | 'status' | 'tradingsymbol' | 'transaction_type' | 'quantity' | 'price' | 'trigger_price' | 'order_type'>;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  current_gtt?: Pick<GTT, 'id' | 'type' | 'status' | 'condition' | 'orders'>;
+  warnings: string[];
+}
+
+interface PendingConfirmation {
+  tool: string;
+  account?: string;
+  /** Arguments of the original tool call */
+  arguments: unknown;
+  preview: OrderPreview;
+  expiresAt: number;
+  execute: () => Promise<any>;
+}
+
+/**
+ * Parse confirmation settings such as "token" (every write tool) or
+ * "place_order=elicit,cancel_order=off" (per tool, unlisted tools are off).
+ */
+export function parseConfirmationModes(value?: string): { defaultMode: ConfirmationMode; perTool: Record<string, ConfirmationMode> } {
+  const result = { defaultMode: 'off' as ConfirmationMode, perTool: {} as Record<string, ConfirmationMode> };
+
+  for (const entry of (value || '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [tool, mode] = entry.includes('=') ? entry.split('=').map((part) => part.trim()) : [null, entry];
+    if (!CONFIRMATION_MODES.includes(mode as ConfirmationMode)) {
+      throw new Error(`Invalid confirmation mode "${mode}". Use one of: ${CONFIRMATION_MODES.join(', ')}`);
+    }
+    if (tool) {
+      result.perTool[tool] = mode as ConfirmationMode;
+    } else {
+      result.defaultMode = mode as ConfirmationMode;
+    }
+  }
+  return result;
+}
+
+/**
+ * Holds write requests that are waiting for a human to confirm them
+ */
+export class OrderConfirmationManager {
+  private defaultMode: ConfirmationMode;
+  private perTool: Record<string, ConfirmationMode>;
+  private ttlMs: number;
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(config?: string, ttlMs?: number) {
+    const modes = parseConfirmationModes(config);
+    this.defaultMode = modes.defaultMode;
+    this.perTool = modes.perTool;
+    this.ttlMs = ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  modeFor(tool: string): ConfirmationMode {
+    return this.perTool[tool] ?? this.defaultMode;
+  }
+
+  /**
+   * Park a request and return the token needed to execute it
+   */
+  issue(tool: string, args: unknown, preview: OrderPreview, execute: () => Promise<any>, account?: string): { confirmation_token: string; expires_at: string } {
+    this.prune();
+    const token = crypto.randomBytes(6).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { tool, account, arguments: args, preview, expiresAt, execute });
+    return { confirmation_token: token, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * A pending request, without taking it out of the queue
+   */
+  peek(token: string): PendingConfirmation | undefined {
+    this.prune();
+    return this.pending.get(token);
+  }
+
+  /**
+   * Take a pending request out of the queue. Tokens are single use.
+   */
+  consume(token: string): PendingConfirmation {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending) {
+      throw new InputException('Confirmation token is invalid or has expired. Call the original tool again to get a new preview');
+    }
+    this.pending.delete(token);
+    return pending;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * Builds human-readable previews of write requests before they are sent
+ */
+export class OrderPreviewBuilder {
+  private client: ZerodhaClient;
+  private broker: TradingBroker;
+  private instrumentMaster: InstrumentMaster;
+
+  constructor(client: ZerodhaClient, broker: TradingBroker, instrumentMaster: InstrumentMaster) {
+    this.client = client;
+    this.broker = broker;
+    this.instrumentMaster = instrumentMaster;
+  }
+
+  async build(tool: string, args: any): Promise<OrderPreview> {
+    switch (tool) {
+      case 'place_order':
+        return this.previewPlaceOrder(args);
+      case 'modify_order':
+        return this.previewModifyOrder(args);
+      case 'cancel_order':
+        return this.previewCancelOrder(args);
+      case 'place_basket':
+        return this.previewBasket(args);
+      case 'convert_position':
+        return this.previewConvertPosition(args);
+      case 'place_gtt':
+      case 'modify_gtt':
+      case 'delete_gtt':
+        return this.previewGTT(tool, args);
+      default:
+        return { tool, summary: `${tool} ${JSON.stringify(args ?? {})}`, warnings: [] };
+    }
+  }
+
+  private async findOrder(orderId: string): Promise<Order | undefined> {
+    return (await this.broker.getOrders()).find((order) => order.order_id === orderId);
+  }
+
+  private async previewPlaceOrder(args: any): Promise<OrderPreview> {
+    const warnings: string[] = [];
+    const key = `${String(args?.exchange).toUpperCase()}:${String(args?.tradingsymbol).toUpperCase()}`;
+    const quantity = Number(args?.quantity);
+    const orderType = String(args?.order_type);
+
+    const instrument = await this.instrumentMaster.resolve(key).catch(() => undefined);
+    if (!instrument) {
+      warnings.push(`${key} was not found in the instrument master`);
+    } else {
+      if (instrument.lot_size > 1 && quantity % instrument.lot_size !== 0) {
+        warnings.push(`Quantity ${quantity} is not a multiple of the lot size ${instrument.lot_size}`);
+      }
+      const price = Number(args?.price);
+      if (price && instrument.tick_size && Math.abs(Math.round(price / instrument.tick_size) * instrument.tick_size - price) > 1e-9) {
+        warnings.push(`Price ${price} is not a multiple of the tick size ${instrument.tick_size}`);
+      }
+    }
+
+    const ltp = (await this.client.getLTP([key]).catch(() => ({} as Record<string, { last_price: number }>)))[key]?.last_price;
+    if (ltp === undefined) {
+      warnings.push('Could not fetch the last traded price');
+    }
+    if (orderType === 'MARKET') {
+      warnings.push('MARKET orders execute at whatever price is available');
+    }
+    if (args?.price && ltp && Math.abs(Number(args.price) - ltp) / ltp > PRICE_DEVIATION_WARNING) {
+      warnings.push(`Price ${args.price} is more than ${PRICE_DEVIATION_WARNING * 100}% away from LTP ${ltp}`);
+    }
+
+    const estimatedPrice = Number(args?.price) || Number(args?.trigger_price) || ltp;
+    const estimatedValue = estimatedPrice !== undefined ? estimatedPrice * quantity : undefined;
+
+    let margin: OrderPreview['margin'];
+    try {
+      const available = (await this.broker.getMargins()).equity.net;
+      const required = args?.transaction_type === 'BUY' || args?.product !== 'CNC' ? estimatedValue ?? 0 : 0;
+      margin = { available, estimated_required: required, remaining_after: available - required };
+      if (required > available) {
+        warnings.push(`Estimated value ${required.toFixed(2)} exceeds available funds ${available.toFixed(2)}`);
+      }
+    } catch {
+      warnings.push('Could not fetch available margin');
+    }
+
+    return {
+      tool: 'place_order',
+      summary: `${args?.transaction_type} ${quantity} ${key} ${orderType}${args?.price ? ` @ ${args.price}` : ''} (${args?.product}, ${args?.variety || 'regular'})`,
+      ...(instrument && {
+        instrument: {
+          instrument_token: instrument.instrument_token,
+          exchange: instrument.exchange,
+          tradingsymbol: instrument.tradingsymbol,
+          name: instrument.name,
+          instrument_type: instrument.instrument_type,
+          lot_size: instrument.lot_size,
+          tick_size: instrument.tick_size,
+        },
+      }),
+      ltp,
+      estimated_price: estimatedPrice,
+      estimated_value: estimatedValue,
+      margin,
+      warnings,
+    };
+  }
+
+  private summarizeOrder(order: Order): OrderPreview['current_order'] {
+    return {
+      order_id: order.order_id,
+      status: order.status,
+      tradingsymbol: order.tradingsymbol,
+      transaction_type: order.transaction_type,
+      quantity: order.quantity,
+      price: order.price,
+      trigger_price: order.trigger_price,
+      order_type: order.order_type,
+    };
+  }
+
+  private async previewModifyOrder(args: any): Promise<OrderPreview> {
+    const warnings: string[] = [];
+    const orderId = String(args?.order_id);
+    const order = await this.findOrder(orderId);
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    if (!order) {
+      warnings.push(`Order ${orderId} was not found in today's orders`);
+    } else {
+      if (!['OPEN', 'TRIGGER PENDING'].includes(order.status)) {
+        warnings.push(`Order is ${order.status} and can likely no longer be modified`);
+      }
+      for (const field of ['quantity', 'price', 'trigger_price', 'order_type', 'validity'] as const) {
+        if (args?.[field] !== undefined && String(args[field]) !== String(order[field])) {
+          changes[field] = { from: order[field], to: args[field] };
+        }
+      }
+    }
+
+    return {
+      tool: 'modify_order',
+      summary: `Modify order ${orderId}`,
+      ...(order && { current_order: this.summarizeOrder(order) }),
+      changes,
+      warnings,
+    };
+  }
+
+  private async previewCancelOrder(args: any): Promise<OrderPreview> {
+    const warnings: string[] = [];
+    const orderId = String(args?.order_id);
+    const order = await this.findOrder(orderId);
+
+    if (!order) {
+      warnings.push(`Order ${orderId} was not found in today's orders`);
+    } else if (!['OPEN', 'TRIGGER PENDING'].includes(order.status)) {
+      warnings.push(`Order is ${order.status} and can likely no longer be cancelled`);
+    }
+
+    return {
+      tool: 'cancel_order',
+      summary: `Cancel order ${orderId}`,
+      ...(order && { current_order: this.summarizeOrder(order) }),
+      warnings,
+    };
+  }
+
+  private async previewBasket(args: any): Promise<OrderPreview> {
+    const legs = await Promise.all((args?.orders as any[]).map((leg) => this.previewPlaceOrder(leg)));
+    const warnings = legs.flatMap((leg, index) => leg.warnings.map((warning) => `orders[${index}]: ${warning}`));
+    const values = legs.map((leg) => leg.estimated_value);
+
+    return {
+      tool: 'place_basket',
+      summary: `Basket of ${legs.length} orders: ${legs.map((leg) => leg.summary).join('; ')}`,
+      ...(values.every((value) => value !== undefined) && { estimated_value: values.reduce((sum, value) => sum! + value!, 0) }),
+      warnings,
+    };
+  }
+
+  private previewConvertPosition(args: any): OrderPreview {
+    const key = `${String(args?.exchange).toUpperCase()}:${String(args?.tradingsymbol).toUpperCase()}`;
+    const oldProduct = String(args?.old_product).toUpperCase();
+    const newProduct = String(args?.new_product).toUpperCase();
+    const warnings: string[] = [];
+    if (oldProduct === 'MIS') {
+      warnings.push(`The position will no longer be squared off at the end of the day and needs the full ${newProduct} margin`);
+    }
+    if (newProduct === 'MIS') {
+      warnings.push('The position will be squared off automatically before the market closes');
+    }
+
+    return {
+      tool: 'convert_position',
+      summary: `Convert ${args?.quantity} of the ${oldProduct} position in ${key} to ${newProduct}`,
+      warnings,
+    };
+  }
+
+  private async findGTT(triggerId: number, warnings: string[]): Promise<OrderPreview['current_gtt']> {
+    try {
+      const { id, type, status, condition, orders } = await this.client.getGTT(triggerId);
+      if (status !== 'active') {
+        warnings.push(`GTT ${triggerId} is ${status}`);
+      }
+      return { id, type, status, condition, orders };
+    } catch {
+      warnings.push(`GTT ${triggerId} was not found`);
+      return undefined;
+    }
+  }
+
+  private async previewGTT(tool: string, args: any): Promise<OrderPreview> {
+    const warnings: string[] = [];
+    const triggerId = Number(args?.trigger_id);
+    const current = tool === 'place_gtt' ? undefined : await this.findGTT(triggerId, warnings);
+    if (tool === 'delete_gtt') {
+      return {
+        tool,
+        summary: current ? `Delete ${describeGTT(current)}` : `Delete GTT ${triggerId}`,
+        ...(current && { current_gtt: current }),
+        warnings,
+      };
+    }
+
+    const request = parseGTTRequest(args);
+    const key = `${request.condition.exchange}:${request.condition.tradingsymbol}`;
+    const ltp = (await this.client.getLTP([key]).catch(() => ({} as Record<string, { last_price: number }>)))[key]?.last_price;
+    if (ltp === undefined) {
+      warnings.push('Could not fetch the last traded price');
+    }
+    request.orders.forEach((order, index) => {
+      const trigger = request.condition.trigger_values[index];
+      if (Math.abs(order.price - trigger) / trigger > PRICE_DEVIATION_WARNING) {
+        warnings.push(`Limit price ${order.price} is more than ${PRICE_DEVIATION_WARNING * 100}% away from its trigger value ${trigger}`);
+      }
+    });
+
+    return {
+      tool,
+      summary: tool === 'place_gtt' ? `Create ${describeGTT(request)}` : `Modify GTT ${triggerId} to ${describeGTT(request)}`,
+      ltp,
+      estimated_value: request.orders.reduce((max, order) => Math.max(max, order.price * order.quantity), 0),
+      ...(current && { current_gtt: current }),
+      warnings,
+    };
+  }
+}
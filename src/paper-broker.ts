@@ -0,0 +1,640 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZerodhaClient } from './zerodha-client.js';
+import { DataException, InputException, OrderException } from './errors.js';
+import { logger } from './logger.js';
+import type {
+  LTPQuote,
+  MarginRequired,
+  Order,
+  OrderPlacement,
+  Position,
+  Trade,
+} from './types/zerodha.js';
+
+/**
+ * The trading surface of ZerodhaClient that the paper broker simulates
+ */
+export type TradingBroker = Pick<
+  ZerodhaClient,
+  | 'getMargins'
+  | 'getPositions'
+  | 'getOrders'
+  | 'getOrderHistory'
+  | 'placeOrder'
+  | 'modifyOrder'
+  | 'cancelOrder'
+  | 'getTrades'
+  | 'getOrderTrades'
+>;
+
+/**
+ * Source of last traded prices used to fill simulated orders
+ */
+export interface PriceFeed {
+  getLTP(instruments: string[]): Promise<Record<string, LTPQuote>>;
+}
+
+export interface PaperBrokerOptions {
+  stateFile?: string;
+  initialCash?: number;
+}
+
+interface PaperState {
+  /** Free cash: margin blocked for open orders and positions is debited from it */
+  cash: number;
+  /** Margin blocked for each open order */
+  blockedMargins: Record<string, number>;
+  orderSequence: number;
+  orders: Order[];
+  orderHistory: Record<string, Order[]>;
+  trades: Trade[];
+  lastPrices: Record<string, LTPQuote>;
+}
+
+const DEFAULT_INITIAL_CASH = 1_000_000;
+
+// Fraction of order value blocked as margin, per product
+const MARGIN_RATES: Record<string, number> = {
+  CNC: 1,
+  NRML: 1,
+  MIS: 0.2,
+  CO: 0.2,
+  BO: 0.2,
+};
+
+const OPEN_STATUSES = ['OPEN', 'TRIGGER PENDING'];
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+const log = logger.child('paper');
+
+function kiteTimestamp(date = new Date()): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function instrumentKey(item: { exchange: string; tradingsymbol: string }): string {
+  return `${item.exchange}:${item.tradingsymbol}`;
+}
+
+/**
+ * Replays recorded prices from a JSON file shaped like
+ * { "NSE:INFY": [1500.5, 1501, ...] }. Each request advances every requested
+ * instrument by one step; the last price is held once the series runs out.
+ */
+export class ReplayPriceFeed implements PriceFeed {
+  private series: Record<string, number[]> = {};
+  private positions = new Map<string, number>();
+
+  static async fromFile(file: string): Promise<ReplayPriceFeed> {
+    const feed = new ReplayPriceFeed();
+    feed.series = JSON.parse(await fs.readFile(file, 'utf-8'));
+    return feed;
+  }
+
+  async getLTP(instruments: string[]): Promise<Record<string, LTPQuote>> {
+    const result: Record<string, LTPQuote> = {};
+    for (const instrument of instruments) {
+      const prices = this.series[instrument];
+      if (!prices || prices.length === 0) {
+        continue;
+      }
+      const position = this.positions.get(instrument) ?? 0;
+      result[instrument] = { instrument_token: 0, last_price: prices[Math.min(position, prices.length - 1)] };
+      this.positions.set(instrument, position + 1);
+    }
+    return result;
+  }
+}
+
+/**
+ * Simulated broker for paper trading. Orders are matched against the price
+ * feed whenever the broker is used, virtual cash and margin are tracked and
+ * state is persisted to disk after every change.
+ */
+export class PaperBroker implements TradingBroker {
+  private priceFeed: PriceFeed;
+  private stateFile: string;
+  private initialCash: number;
+  private state: PaperState | null = null;
+
+  constructor(priceFeed: PriceFeed, options: PaperBrokerOptions = {}) {
+    this.priceFeed = priceFeed;
+    this.stateFile = options.stateFile || path.join(os.homedir(), '.kitelink', 'paper-state.json');
+    this.initialCash = options.initialCash ?? DEFAULT_INITIAL_CASH;
+  }
+
+  private async loadState(): Promise<PaperState> {
+    if (!this.state) {
+      try {
+        this.state = JSON.parse(await fs.readFile(this.stateFile, 'utf-8')) as PaperState;
+        this.state.blockedMargins ??= {};
+      } catch {
+        this.state = {
+          cash: this.initialCash,
+          blockedMargins: {},
+          orderSequence: 0,
+          orders: [],
+          orderHistory: {},
+          trades: [],
+          lastPrices: {},
+        };
+      }
+    }
+    return this.state;
+  }
+
+  private async saveState(): Promise<void> {
+    await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+    await fs.writeFile(this.stateFile, JSON.stringify(this.state, null, 2), 'utf-8');
+  }
+
+  private async refreshPrices(instruments: string[]): Promise<void> {
+    const state = await this.loadState();
+    if (instruments.length === 0) {
+      return;
+    }
+    try {
+      Object.assign(state.lastPrices, await this.priceFeed.getLTP([...new Set(instruments)]));
+    } catch (error) {
+      log.warning('⚠️  Paper broker could not refresh prices, using last known prices', { error });
+    }
+  }
+
+  private recordHistory(order: Order): void {
+    const history = this.state!.orderHistory[order.order_id] || [];
+    history.push({ ...order, order_timestamp: kiteTimestamp() });
+    this.state!.orderHistory[order.order_id] = history;
+  }
+
+  private findOrder(orderId: string): Order {
+    const order = this.state!.orders.find((o) => o.order_id === orderId);
+    if (!order) {
+      throw new InputException(`Order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  private orderValue(order: Pick<Order, 'exchange' | 'tradingsymbol' | 'quantity' | 'price' | 'trigger_price'>): number {
+    const ltp = this.state!.lastPrices[instrumentKey(order)]?.last_price ?? 0;
+    return order.quantity * (order.price || order.trigger_price || ltp);
+  }
+
+  private requiredMargin(order: Pick<Order, 'exchange' | 'tradingsymbol' | 'quantity' | 'price' | 'trigger_price' | 'product'>): number {
+    return this.orderValue(order) * (MARGIN_RATES[order.product] ?? 1);
+  }
+
+  /**
+   * Margin for the part of an order that opens or adds to a position; the
+   * part that closes it needs none
+   */
+  private openingMargin(order: Order): number {
+    return this.requiredMargin({ ...order, quantity: order.quantity - this.closingQuantity(order) });
+  }
+
+  private positionFor(order: Pick<Order, 'exchange' | 'tradingsymbol' | 'product'>): Position | undefined {
+    return this.computePositions(this.state!.trades)
+      .find((position) => instrumentKey(position) === instrumentKey(order) && position.product === order.product);
+  }
+
+  /**
+   * How much of an order closes the position in its symbol and product,
+   * after the other open orders that already reduce it
+   */
+  private closingQuantity(order: Order): number {
+    const current = this.positionFor(order)?.quantity ?? 0;
+    const direction = order.transaction_type === 'BUY' ? 1 : -1;
+    if (Math.sign(current) !== -direction) {
+      return 0;
+    }
+    const reducing = this.state!.orders
+      .filter((other) =>
+        other.order_id !== order.order_id &&
+        OPEN_STATUSES.includes(other.status) &&
+        instrumentKey(other) === instrumentKey(order) &&
+        other.product === order.product &&
+        other.transaction_type === order.transaction_type
+      )
+      .reduce((sum, other) => sum + other.pending_quantity, 0);
+    return Math.min(Math.max(Math.abs(current) - reducing, 0), order.quantity);
+  }
+
+  private blockedMargin(): number {
+    return Object.values(this.state!.blockedMargins).reduce((sum, margin) => sum + margin, 0);
+  }
+
+  private blockMargin(order: Order, margin: number): void {
+    this.state!.cash -= margin - (this.state!.blockedMargins[order.order_id] ?? 0);
+    this.state!.blockedMargins[order.order_id] = margin;
+  }
+
+  /**
+   * Return the margin blocked for an order that filled, was cancelled or was rejected
+   */
+  private releaseMargin(order: Order): void {
+    this.state!.cash += this.state!.blockedMargins[order.order_id] ?? 0;
+    delete this.state!.blockedMargins[order.order_id];
+  }
+
+  /**
+   * Margin held against open positions, at the price they were opened at
+   */
+  private positionMargin(positions: Position[]): number {
+    return positions.reduce(
+      (sum, position) => sum + Math.abs(position.quantity) * position.average_price * (MARGIN_RATES[position.product] ?? 1),
+      0
+    );
+  }
+
+  /**
+   * Unrealised P&L counts towards funds only for leveraged products; gains
+   * on delivery positions are not cash until they are sold
+   */
+  private leveragedUnrealised(positions: Position[]): number {
+    return positions
+      .filter((position) => (MARGIN_RATES[position.product] ?? 1) < 1)
+      .reduce((sum, position) => sum + position.unrealised, 0);
+  }
+
+  private computePositions(trades: Trade[]): Position[] {
+    const groups = new Map<string, Trade[]>();
+    for (const trade of trades) {
+      const key = `${instrumentKey(trade)}:${trade.product}`;
+      groups.set(key, [...(groups.get(key) || []), trade]);
+    }
+
+    return [...groups.values()].map((group) => {
+      const first = group[0];
+      const buys = group.filter((trade) => trade.transaction_type === 'BUY');
+      const sells = group.filter((trade) => trade.transaction_type === 'SELL');
+      const buyQuantity = buys.reduce((sum, trade) => sum + trade.quantity, 0);
+      const sellQuantity = sells.reduce((sum, trade) => sum + trade.quantity, 0);
+      const buyValue = buys.reduce((sum, trade) => sum + trade.quantity * trade.average_price, 0);
+      const sellValue = sells.reduce((sum, trade) => sum + trade.quantity * trade.average_price, 0);
+      const buyPrice = buyQuantity ? buyValue / buyQuantity : 0;
+      const sellPrice = sellQuantity ? sellValue / sellQuantity : 0;
+      const quantity = buyQuantity - sellQuantity;
+      const lastPrice = this.state!.lastPrices[instrumentKey(first)]?.last_price ?? 0;
+      const pnl = sellValue - buyValue + quantity * lastPrice;
+      const realised = Math.min(buyQuantity, sellQuantity) * (sellPrice - buyPrice);
+
+      return {
+        tradingsymbol: first.tradingsymbol,
+        exchange: first.exchange,
+        instrument_token: first.instrument_token,
+        product: first.product,
+        quantity,
+        overnight_quantity: 0,
+        multiplier: 1,
+        average_price: quantity > 0 ? buyPrice : quantity < 0 ? sellPrice : 0,
+        close_price: 0,
+        last_price: lastPrice,
+        value: sellValue - buyValue,
+        pnl,
+        m2m: pnl,
+        unrealised: pnl - realised,
+        realised,
+        buy_quantity: buyQuantity,
+        buy_price: buyPrice,
+        buy_value: buyValue,
+        buy_m2m: buyValue,
+        sell_quantity: sellQuantity,
+        sell_price: sellPrice,
+        sell_value: sellValue,
+        sell_m2m: sellValue,
+        day_buy_quantity: buyQuantity,
+        day_buy_price: buyPrice,
+        day_buy_value: buyValue,
+        day_sell_quantity: sellQuantity,
+        day_sell_price: sellPrice,
+        day_sell_value: sellValue,
+      };
+    });
+  }
+
+  /**
+   * Try to fill every open order against the latest prices
+   */
+  private async matchOrders(): Promise<void> {
+    const state = await this.loadState();
+    const openOrders = state.orders.filter((order) => OPEN_STATUSES.includes(order.status));
+    if (openOrders.length === 0) {
+      return;
+    }
+
+    await this.refreshPrices(openOrders.map(instrumentKey));
+    let changed = false;
+    for (const order of openOrders) {
+      changed = this.matchOrder(order) || changed;
+    }
+    if (changed) {
+      await this.saveState();
+    }
+  }
+
+  private matchOrder(order: Order): boolean {
+    const ltp = this.state!.lastPrices[instrumentKey(order)]?.last_price;
+    if (ltp === undefined) {
+      return false;
+    }
+    const isBuy = order.transaction_type === 'BUY';
+    let changed = false;
+
+    if (order.status === 'TRIGGER PENDING') {
+      const triggered = isBuy ? ltp >= order.trigger_price : ltp <= order.trigger_price;
+      if (!triggered) {
+        return false;
+      }
+      order.status = 'OPEN';
+      this.recordHistory(order);
+      changed = true;
+    }
+
+    let fillPrice: number | null = null;
+    if (order.order_type === 'MARKET' || order.order_type === 'SL-M') {
+      fillPrice = ltp;
+    } else if (isBuy && ltp <= order.price) {
+      fillPrice = Math.min(ltp, order.price);
+    } else if (!isBuy && ltp >= order.price) {
+      fillPrice = Math.max(ltp, order.price);
+    }
+
+    if (fillPrice === null) {
+      if (order.validity === 'IOC') {
+        order.status = 'CANCELLED';
+        order.cancelled_quantity = order.pending_quantity;
+        order.pending_quantity = 0;
+        order.status_message = 'IOC order could not be filled immediately';
+        this.releaseMargin(order);
+        this.recordHistory(order);
+        changed = true;
+      }
+      return changed;
+    }
+
+    this.fill(order, fillPrice);
+    return true;
+  }
+
+  /**
+   * Settle a fill against cash: the part that closes the position releases
+   * its margin and books the realised P&L, the part that opens or adds to it
+   * blocks margin at the fill price
+   */
+  private settleFill(order: Order, price: number): void {
+    const rate = MARGIN_RATES[order.product] ?? 1;
+    const position = this.positionFor(order);
+    const current = position?.quantity ?? 0;
+    const signed = order.transaction_type === 'BUY' ? order.quantity : -order.quantity;
+    const closing = Math.sign(current) === -Math.sign(signed) ? Math.min(Math.abs(current), order.quantity) : 0;
+    const opening = order.quantity - closing;
+
+    this.releaseMargin(order);
+    if (closing > 0) {
+      this.state!.cash += closing * (position!.average_price * rate + (price - position!.average_price) * Math.sign(current));
+    }
+    this.state!.cash -= opening * price * rate;
+  }
+
+  private fill(order: Order, price: number): void {
+    const now = kiteTimestamp();
+    this.settleFill(order, price);
+    order.status = 'COMPLETE';
+    order.average_price = price;
+    order.filled_quantity = order.quantity;
+    order.pending_quantity = 0;
+    order.exchange_timestamp = now;
+    order.exchange_update_timestamp = now;
+    this.recordHistory(order);
+
+    this.state!.trades.push({
+      trade_id: `P${order.order_id}`,
+      order_id: order.order_id,
+      exchange_order_id: order.exchange_order_id,
+      tradingsymbol: order.tradingsymbol,
+      exchange: order.exchange,
+      instrument_token: order.instrument_token,
+      transaction_type: order.transaction_type,
+      product: order.product,
+      average_price: price,
+      quantity: order.quantity,
+      fill_timestamp: now,
+      order_timestamp: order.order_timestamp,
+      exchange_timestamp: now,
+    });
+  }
+
+  private validateOrder(order: Pick<Order, 'order_type' | 'price' | 'trigger_price' | 'quantity'>): void {
+    if (!(order.quantity > 0)) {
+      throw new InputException('quantity must be a positive number');
+    }
+    if ((order.order_type === 'LIMIT' || order.order_type === 'SL') && !(order.price > 0)) {
+      throw new InputException(`price is required for ${order.order_type} orders`);
+    }
+    if ((order.order_type === 'SL' || order.order_type === 'SL-M') && !(order.trigger_price > 0)) {
+      throw new InputException(`trigger_price is required for ${order.order_type} orders`);
+    }
+  }
+
+  private async availableFunds(): Promise<number> {
+    const state = await this.loadState();
+    return state.cash + this.leveragedUnrealised(this.computePositions(state.trades));
+  }
+
+  async getMargins(): Promise<MarginRequired> {
+    await this.matchOrders();
+    const state = await this.loadState();
+    const positions = this.computePositions(state.trades);
+    const realised = positions.reduce((sum, position) => sum + position.realised, 0);
+    const unrealised = positions.reduce((sum, position) => sum + position.unrealised, 0);
+    const exposure = this.positionMargin(positions) + this.blockedMargin();
+    const net = await this.availableFunds();
+
+    const utilised = {
+      debits: exposure,
+      exposure,
+      m2m_realised: realised,
+      m2m_unrealised: unrealised,
+      option_premium: 0,
+      payout: 0,
+      span: 0,
+      holding_sales: 0,
+      turnover: 0,
+      liquid_collateral: 0,
+      stock_collateral: 0,
+    };
+
+    return {
+      equity: {
+        enabled: true,
+        net,
+        available: {
+          adhoc_margin: 0,
+          cash: state.cash + exposure,
+          opening_balance: this.initialCash,
+          live_balance: net,
+          collateral: 0,
+          intraday_payin: 0,
+        },
+        utilised,
+      },
+      commodity: {
+        enabled: false,
+        net: 0,
+        available: { adhoc_margin: 0, cash: 0, opening_balance: 0, live_balance: 0 },
+        utilised: Object.fromEntries(Object.keys(utilised).map((key) => [key, 0])) as typeof utilised,
+      },
+    };
+  }
+
+  async getPositions(): Promise<{ net: Position[], day: Position[] }> {
+    await this.matchOrders();
+    const state = await this.loadState();
+    await this.refreshPrices(state.trades.map(instrumentKey));
+
+    const today = kiteTimestamp().slice(0, 10);
+    return {
+      net: this.computePositions(state.trades),
+      day: this.computePositions(state.trades.filter((trade) => trade.fill_timestamp.startsWith(today))),
+    };
+  }
+
+  async getOrders(): Promise<Order[]> {
+    await this.matchOrders();
+    return (await this.loadState()).orders;
+  }
+
+  async getOrderHistory(orderId: string): Promise<Order[]> {
+    await this.matchOrders();
+    const state = await this.loadState();
+    this.findOrder(orderId);
+    return state.orderHistory[orderId] || [];
+  }
+
+  async getTrades(): Promise<Trade[]> {
+    await this.matchOrders();
+    return (await this.loadState()).trades;
+  }
+
+  async getOrderTrades(orderId: string): Promise<Trade[]> {
+    await this.matchOrders();
+    this.findOrder(orderId);
+    return (await this.loadState()).trades.filter((trade) => trade.order_id === orderId);
+  }
+
+  async placeOrder(orderData: OrderPlacement): Promise<{ order_id: string }> {
+    const state = await this.loadState();
+    const key = instrumentKey(orderData);
+    await this.refreshPrices([key]);
+    const quote = state.lastPrices[key];
+    if (!quote) {
+      throw new DataException(`No price available for ${key}; cannot simulate the order`);
+    }
+
+    state.orderSequence += 1;
+    const orderId = `PAPER${Date.now()}${String(state.orderSequence).padStart(4, '0')}`;
+    const isStop = orderData.order_type === 'SL' || orderData.order_type === 'SL-M';
+    const order: Order = {
+      account_id: 'PAPER',
+      placed_by: 'PAPER',
+      order_id: orderId,
+      exchange_order_id: `X${orderId}`,
+      status: isStop ? 'TRIGGER PENDING' : 'OPEN',
+      order_timestamp: kiteTimestamp(),
+      variety: orderData.variety,
+      exchange: orderData.exchange,
+      tradingsymbol: orderData.tradingsymbol,
+      instrument_token: quote.instrument_token,
+      order_type: orderData.order_type,
+      transaction_type: orderData.transaction_type,
+      validity: orderData.validity || 'DAY',
+      product: orderData.product,
+      quantity: orderData.quantity,
+      disclosed_quantity: orderData.disclosed_quantity || 0,
+      price: orderData.price || 0,
+      trigger_price: orderData.trigger_price || 0,
+      average_price: 0,
+      filled_quantity: 0,
+      pending_quantity: orderData.quantity,
+      cancelled_quantity: 0,
+      market_protection: 0,
+      meta: { paper: true },
+      tag: orderData.tag,
+      guid: orderId,
+    };
+    this.validateOrder(order);
+
+    const required = this.openingMargin(order);
+    const available = await this.availableFunds();
+    if (required > available) {
+      order.status = 'REJECTED';
+      order.status_message = `Insufficient funds. Required margin is ${required.toFixed(2)} but available margin is ${available.toFixed(2)}`;
+      order.pending_quantity = 0;
+    }
+
+    state.orders.push(order);
+    this.recordHistory(order);
+    if (order.status !== 'REJECTED') {
+      this.blockMargin(order, required);
+      this.matchOrder(order);
+    }
+    await this.saveState();
+    return { order_id: orderId };
+  }
+
+  async modifyOrder(
+    variety: string,
+    orderId: string,
+    orderData: Partial<OrderPlacement>
+  ): Promise<{ order_id: string }> {
+    await this.matchOrders();
+    const order = this.findOrder(orderId);
+    if (!OPEN_STATUSES.includes(order.status)) {
+      throw new OrderException(`Order ${orderId} is ${order.status} and cannot be modified`);
+    }
+
+    const updated: Order = {
+      ...order,
+      quantity: orderData.quantity ?? order.quantity,
+      price: orderData.price ?? order.price,
+      trigger_price: orderData.trigger_price ?? order.trigger_price,
+      order_type: orderData.order_type ?? order.order_type,
+      validity: orderData.validity ?? order.validity,
+    };
+    this.validateOrder(updated);
+
+    const required = this.openingMargin(updated);
+    const available = (await this.availableFunds()) + (this.state!.blockedMargins[orderId] ?? 0);
+    if (required > available) {
+      throw new OrderException(`Insufficient funds. Required margin is ${required.toFixed(2)} but available margin is ${available.toFixed(2)}`);
+    }
+
+    // A stop order waits for its trigger unless it has already triggered as a stop
+    const wasStop = order.order_type === 'SL' || order.order_type === 'SL-M';
+    const isStop = updated.order_type === 'SL' || updated.order_type === 'SL-M';
+    const status = isStop && (!wasStop || order.status === 'TRIGGER PENDING') ? 'TRIGGER PENDING' : 'OPEN';
+
+    Object.assign(order, updated, { pending_quantity: updated.quantity, status });
+    this.blockMargin(order, required);
+    this.recordHistory(order);
+    this.matchOrder(order);
+    await this.saveState();
+    return { order_id: orderId };
+  }
+
+  async cancelOrder(variety: string, orderId: string): Promise<{ order_id: string }> {
+    await this.matchOrders();
+    const order = this.findOrder(orderId);
+    if (!OPEN_STATUSES.includes(order.status)) {
+      throw new OrderException(`Order ${orderId} is ${order.status} and cannot be cancelled`);
+    }
+
+    order.status = 'CANCELLED';
+    order.cancelled_quantity = order.pending_quantity;
+    order.pending_quantity = 0;
+    this.releaseMargin(order);
+    this.recordHistory(order);
+    await this.saveState();
+    return { order_id: orderId };
+  }
+}
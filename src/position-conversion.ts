@@ -0,0 +1,75 @@
+import { InputException } from './errors.js';
+import type { Position, PositionConversion } from './types/zerodha.js';
+
+const CONVERTIBLE_PRODUCTS: PositionConversion['new_product'][] = ['CNC', 'MIS', 'NRML'];
+// CNC is for equity delivery; derivatives and commodities carry forward as NRML
+const EQUITY_EXCHANGES = ['NSE', 'BSE'];
+
+export function validateConversionParams(args: any): void {
+  if (!args?.exchange || !args?.tradingsymbol || !args?.quantity || !args?.old_product || !args?.new_product) {
+    throw new InputException('Required parameters: exchange, tradingsymbol, quantity, old_product, new_product');
+  }
+}
+
+/**
+ * Build a conversion of an open position, checking the products, direction
+ * and quantity against the position Kite reports
+ */
+export function buildPositionConversion(args: any, positions: Position[]): PositionConversion {
+  validateConversionParams(args);
+  const exchange = String(args.exchange).toUpperCase();
+  const tradingsymbol = String(args.tradingsymbol).toUpperCase();
+  const key = `${exchange}:${tradingsymbol}`;
+  const oldProduct = String(args.old_product).toUpperCase() as PositionConversion['old_product'];
+  const newProduct = String(args.new_product).toUpperCase() as PositionConversion['new_product'];
+
+  for (const product of [oldProduct, newProduct]) {
+    if (!CONVERTIBLE_PRODUCTS.includes(product)) {
+      throw new InputException(`Invalid product "${product}". Positions convert between ${CONVERTIBLE_PRODUCTS.join(', ')}`);
+    }
+  }
+  if (oldProduct === newProduct) {
+    throw new InputException(`old_product and new_product are both ${oldProduct}`);
+  }
+  const equity = EQUITY_EXCHANGES.includes(exchange);
+  if (newProduct === 'CNC' && !equity) {
+    throw new InputException(`CNC only applies to equity on ${EQUITY_EXCHANGES.join(' and ')}; use NRML for ${exchange}`);
+  }
+  if (newProduct === 'NRML' && equity) {
+    throw new InputException(`NRML does not apply to equity on ${exchange}; use CNC`);
+  }
+
+  const position = positions.find((p) => p.exchange === exchange && p.tradingsymbol === tradingsymbol && p.product === oldProduct && p.quantity !== 0);
+  if (!position) {
+    throw new InputException(`No open ${oldProduct} position in ${key}`);
+  }
+
+  const direction = position.quantity > 0 ? 'BUY' : 'SELL';
+  if (args.transaction_type && String(args.transaction_type).toUpperCase() !== direction) {
+    throw new InputException(`The ${oldProduct} position in ${key} is ${direction === 'BUY' ? 'long' : 'short'}, so transaction_type must be ${direction}`);
+  }
+  if (direction === 'SELL' && newProduct === 'CNC') {
+    throw new InputException(`The ${oldProduct} position in ${key} is short and cannot be converted to CNC`);
+  }
+
+  const quantity = Number(args.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > Math.abs(position.quantity)) {
+    throw new InputException(`quantity must be a whole number from 1 to ${Math.abs(position.quantity)}, the size of the ${oldProduct} position in ${key}`);
+  }
+
+  const tradedToday = position.day_buy_quantity > 0 || position.day_sell_quantity > 0;
+  const positionType = args.position_type ? String(args.position_type) : tradedToday ? 'day' : 'overnight';
+  if (positionType !== 'day' && positionType !== 'overnight') {
+    throw new InputException(`Invalid position_type "${positionType}". Use day or overnight`);
+  }
+
+  return {
+    exchange,
+    tradingsymbol,
+    transaction_type: direction,
+    position_type: positionType,
+    quantity,
+    old_product: oldProduct,
+    new_product: newProduct,
+  };
+}
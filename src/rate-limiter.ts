@@ -0,0 +1,157 @@
+export type RequestClass = 'quote' | 'historical' | 'order' | 'default';
+
+interface BucketLimit {
+  requests: number;
+  intervalMs: number;
+}
+
+// Kite's published limits per endpoint class
+const REQUEST_LIMITS: Record<RequestClass, BucketLimit[]> = {
+  quote: [{ requests: 1, intervalMs: 1000 }],
+  historical: [{ requests: 3, intervalMs: 1000 }],
+  order: [{ requests: 10, intervalMs: 1000 }, { requests: 200, intervalMs: 60 * 1000 }],
+  default: [{ requests: 10, intervalMs: 1000 }],
+};
+
+export interface RequestClassStats {
+  limits: string[];
+  queued: number;
+  requests: number;
+  throttled: number;
+  rate_limited: number;
+  retries: number;
+}
+
+/**
+ * Classify a request into the endpoint class whose rate limit applies to it
+ */
+export function requestClassFor(method: string | undefined, url: string | undefined): RequestClass {
+  const path = (url || '').split('?')[0];
+  if (path.startsWith('/quote')) {
+    return 'quote';
+  }
+  if (path.startsWith('/instruments/historical/')) {
+    return 'historical';
+  }
+  if (path.startsWith('/orders/') && ['post', 'put', 'delete'].includes((method || 'get').toLowerCase())) {
+    return 'order';
+  }
+  return 'default';
+}
+
+class TokenBucket {
+  private limit: BucketLimit;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(limit: BucketLimit) {
+    this.limit = limit;
+    this.tokens = limit.requests;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.requests, this.tokens + ((now - this.updatedAt) * this.limit.requests) / this.limit.intervalMs);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until a token is available
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * this.limit.intervalMs) / this.limit.requests);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+}
+
+class RequestQueue {
+  readonly stats: RequestClassStats;
+  private buckets: TokenBucket[];
+  private waiting: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(limits: BucketLimit[]) {
+    this.buckets = limits.map((limit) => new TokenBucket(limit));
+    this.stats = {
+      limits: limits.map((limit) => `${limit.requests}/${limit.intervalMs >= 60000 ? 'min' : 'sec'}`),
+      queued: 0,
+      requests: 0,
+      throttled: 0,
+      rate_limited: 0,
+      retries: 0,
+    };
+  }
+
+  acquire(): Promise<void> {
+    this.stats.requests += 1;
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+      this.drain();
+      if (this.waiting.includes(resolve)) {
+        this.stats.throttled += 1;
+      }
+      this.stats.queued = this.waiting.length;
+    });
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+    while (this.waiting.length > 0) {
+      const wait = Math.max(...this.buckets.map((bucket) => bucket.waitTime()));
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait);
+        break;
+      }
+      this.buckets.forEach((bucket) => bucket.take());
+      this.waiting.shift()!();
+    }
+    this.stats.queued = this.waiting.length;
+  }
+}
+
+/**
+ * Per-endpoint-class token buckets. Requests beyond the limit wait in a
+ * FIFO queue instead of being sent and rejected with a 429.
+ */
+export class RateLimiter {
+  private queues: Record<RequestClass, RequestQueue>;
+
+  constructor(limits: Record<RequestClass, BucketLimit[]> = REQUEST_LIMITS) {
+    this.queues = {
+      quote: new RequestQueue(limits.quote),
+      historical: new RequestQueue(limits.historical),
+      order: new RequestQueue(limits.order),
+      default: new RequestQueue(limits.default),
+    };
+  }
+
+  acquire(requestClass: RequestClass): Promise<void> {
+    return this.queues[requestClass].acquire();
+  }
+
+  recordRetry(requestClass: RequestClass): void {
+    this.queues[requestClass].stats.retries += 1;
+  }
+
+  recordRateLimited(requestClass: RequestClass): void {
+    this.queues[requestClass].stats.rate_limited += 1;
+  }
+
+  getStats(): Record<RequestClass, RequestClassStats> {
+    return {
+      quote: { ...this.queues.quote.stats },
+      historical: { ...this.queues.historical.stats },
+      order: { ...this.queues.order.stats },
+      default: { ...this.queues.default.stats },
+    };
+  }
+}
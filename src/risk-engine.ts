@@ -0,0 +1,360 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZerodhaClient } from './zerodha-client.js';
+import type { TradingBroker } from './paper-broker.js';
+import type { GTTOrder, Order, OrderPlacement, Position } from './types/zerodha.js';
+
+export interface RiskLimits {
+  maxOrderValue?: number;
+  maxQuantityPerSymbol?: number;
+  maxOpenOrders?: number;
+  allowedExchanges?: string[];
+  blockedExchanges?: string[];
+  allowedProducts?: string[];
+  blockedProducts?: string[];
+  allowedSymbols?: string[];
+  blockedSymbols?: string[];
+  marketOrderLiquidity?: {
+    minVolume?: number;
+    maxSpreadPercent?: number;
+  };
+  dailyLossLimit?: number;
+}
+
+export interface RiskViolation {
+  rule: string;
+  message: string;
+  limit?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Thrown when an order breaks one or more configured risk limits
+ */
+export class RiskLimitError extends Error {
+  violations: RiskViolation[];
+
+  constructor(violations: RiskViolation[]) {
+    super(`Order blocked by risk limits: ${violations.map((v) => v.message).join('; ')}`);
+    this.name = 'RiskLimitError';
+    this.violations = violations;
+  }
+}
+
+type OrderCheck = Pick<OrderPlacement, 'exchange' | 'tradingsymbol' | 'transaction_type' | 'quantity' | 'product' | 'order_type' | 'price' | 'trigger_price'>;
+
+const OPEN_STATUSES = ['OPEN', 'TRIGGER PENDING', 'AMO REQ RECEIVED', 'PUT ORDER REQ RECEIVED', 'VALIDATION PENDING', 'OPEN PENDING'];
+
+export async function loadRiskLimits(file?: string): Promise<RiskLimits> {
+  const limitsFile = file || path.join(os.homedir(), '.kitelink', 'risk-limits.json');
+  try {
+    return JSON.parse(await fs.readFile(limitsFile, 'utf-8')) as RiskLimits;
+  } catch (error) {
+    if (!file && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Failed to load risk limits from ${limitsFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function symbolKey(item: { exchange: string; tradingsymbol: string }): string {
+  return `${item.exchange}:${item.tradingsymbol}`.toUpperCase();
+}
+
+function matchesList(list: string[] | undefined, value: string): boolean {
+  return !!list?.some((entry) => entry.toUpperCase() === value.toUpperCase());
+}
+
+/**
+ * Server-side pre-trade checks applied before orders reach the broker
+ */
+export class RiskEngine {
+  private broker: TradingBroker;
+  private client: ZerodhaClient;
+  private limits: RiskLimits;
+
+  constructor(broker: TradingBroker, client: ZerodhaClient, limits: RiskLimits) {
+    this.broker = broker;
+    this.client = client;
+    this.limits = limits;
+  }
+
+  private netQuantity(positions: Position[], key: string): number {
+    return positions
+      .filter((position) => symbolKey(position) === key)
+      .reduce((sum, position) => sum + position.quantity, 0);
+  }
+
+  /**
+   * Today's P&L: m2m counts positions carried forward from their last close,
+   * so earlier days' gains and losses are left out
+   */
+  private dailyPnl(positions: Position[]): number {
+    return positions.reduce((sum, position) => sum + position.m2m, 0);
+  }
+
+  private openOrders(orders: Order[]): Order[] {
+    return orders.filter((order) => OPEN_STATUSES.includes(order.status));
+  }
+
+  private checkLists(order: OrderCheck, violations: RiskViolation[]): void {
+    const limits = this.limits;
+    const key = symbolKey(order);
+
+    if (limits.allowedExchanges?.length && !matchesList(limits.allowedExchanges, order.exchange)) {
+      violations.push({ rule: 'allowedExchanges', message: `Exchange ${order.exchange} is not in the allowed list`, limit: limits.allowedExchanges, actual: order.exchange });
+    }
+    if (matchesList(limits.blockedExchanges, order.exchange)) {
+      violations.push({ rule: 'blockedExchanges', message: `Exchange ${order.exchange} is blocked`, actual: order.exchange });
+    }
+    if (limits.allowedProducts?.length && !matchesList(limits.allowedProducts, order.product)) {
+      violations.push({ rule: 'allowedProducts', message: `Product ${order.product} is not in the allowed list`, limit: limits.allowedProducts, actual: order.product });
+    }
+    if (matchesList(limits.blockedProducts, order.product)) {
+      violations.push({ rule: 'blockedProducts', message: `Product ${order.product} is blocked`, actual: order.product });
+    }
+    if (limits.allowedSymbols?.length && !matchesList(limits.allowedSymbols, key)) {
+      violations.push({ rule: 'allowedSymbols', message: `${key} is not in the allowed symbol list`, limit: limits.allowedSymbols, actual: key });
+    }
+    if (matchesList(limits.blockedSymbols, key)) {
+      violations.push({ rule: 'blockedSymbols', message: `${key} is blocked`, actual: key });
+    }
+  }
+
+  private async checkLiquidity(order: OrderCheck, violations: RiskViolation[]): Promise<void> {
+    const liquidity = this.limits.marketOrderLiquidity;
+    if ((order.order_type !== 'MARKET' && order.order_type !== 'SL-M') || !liquidity) {
+      return;
+    }
+
+    const key = symbolKey(order);
+    const quote = (await this.client.getQuotes([key]))[key];
+    if (!quote) {
+      violations.push({ rule: 'marketOrderLiquidity', message: `No quote available for ${key}; MARKET orders are not allowed` });
+      return;
+    }
+
+    if (liquidity.minVolume !== undefined && quote.volume < liquidity.minVolume) {
+      violations.push({
+        rule: 'marketOrderLiquidity.minVolume',
+        message: `${key} traded ${quote.volume} today, below the minimum ${liquidity.minVolume} for MARKET orders`,
+        limit: liquidity.minVolume,
+        actual: quote.volume,
+      });
+    }
+
+    if (liquidity.maxSpreadPercent !== undefined) {
+      const bid = quote.depth?.buy?.[0]?.price;
+      const ask = quote.depth?.sell?.[0]?.price;
+      const spreadPercent = bid && ask ? ((ask - bid) / ((ask + bid) / 2)) * 100 : Infinity;
+      if (spreadPercent > liquidity.maxSpreadPercent) {
+        violations.push({
+          rule: 'marketOrderLiquidity.maxSpreadPercent',
+          message: bid && ask
+            ? `${key} bid-ask spread is ${spreadPercent.toFixed(2)}%, above the maximum ${liquidity.maxSpreadPercent}% for MARKET orders`
+            : `${key} has no two-sided market; MARKET orders are not allowed`,
+          limit: liquidity.maxSpreadPercent,
+          actual: Number.isFinite(spreadPercent) ? Number(spreadPercent.toFixed(2)) : null,
+        });
+      }
+    }
+  }
+
+  private checkOrderValue(value: number, violations: RiskViolation[]): void {
+    const limit = this.limits.maxOrderValue;
+    if (limit !== undefined && value > limit) {
+      violations.push({ rule: 'maxOrderValue', message: `Order value ${value.toFixed(2)} exceeds the maximum ${limit}`, limit, actual: value });
+    }
+  }
+
+  private async estimatePrice(order: OrderCheck): Promise<number> {
+    if (order.price) {
+      return order.price;
+    }
+    if (order.trigger_price) {
+      return order.trigger_price;
+    }
+    const key = symbolKey(order);
+    return (await this.client.getLTP([key]))[key]?.last_price ?? 0;
+  }
+
+  /**
+   * Quantity still to fill on the open orders and earlier basket legs that
+   * trade `key` in the same direction as `order`, leaving out the order
+   * being modified
+   */
+  private pendingQuantity(orders: Order[], order: OrderCheck, existing: Order | undefined, prior: OrderCheck[]): number {
+    const key = symbolKey(order);
+    const open = this.openOrders(orders)
+      .filter((pending) => pending.order_id !== existing?.order_id)
+      .map((pending) => ({ ...pending, quantity: pending.quantity - pending.filled_quantity }));
+    return [...open, ...prior]
+      .filter((pending) => symbolKey(pending) === key && pending.transaction_type === order.transaction_type)
+      .reduce((sum, pending) => sum + pending.quantity, 0);
+  }
+
+  /**
+   * Check an order against every limit. `existing` is the order being
+   * modified; its filled part is already in the position. `prior` are the
+   * basket legs placed before this one, counted as open orders.
+   */
+  private async check(order: OrderCheck, existing?: Order, prior: OrderCheck[] = []): Promise<RiskViolation[]> {
+    const limits = this.limits;
+    const violations: RiskViolation[] = [];
+    const key = symbolKey(order);
+
+    this.checkLists(order, violations);
+
+    if (limits.maxOrderValue !== undefined) {
+      this.checkOrderValue((await this.estimatePrice(order)) * order.quantity, violations);
+    }
+
+    const { net } = await this.broker.getPositions();
+    const orders = limits.maxQuantityPerSymbol !== undefined || limits.maxOpenOrders !== undefined ? await this.broker.getOrders() : [];
+    const direction = order.transaction_type === 'BUY' ? 1 : -1;
+    const currentQuantity = this.netQuantity(net, key);
+    // Resting orders in the same direction count as if they had filled
+    const exposure = currentQuantity + direction * this.pendingQuantity(orders, order, existing, prior);
+    const resultingQuantity = exposure + direction * (order.quantity - (existing?.filled_quantity ?? 0));
+    const increasesRisk = Math.abs(resultingQuantity) > Math.abs(exposure);
+
+    if (limits.maxQuantityPerSymbol !== undefined && increasesRisk && Math.abs(resultingQuantity) > limits.maxQuantityPerSymbol) {
+      violations.push({
+        rule: 'maxQuantityPerSymbol',
+        message: `Position and open orders in ${key} would reach ${Math.abs(resultingQuantity)}, above the maximum ${limits.maxQuantityPerSymbol}`,
+        limit: limits.maxQuantityPerSymbol,
+        actual: Math.abs(resultingQuantity),
+      });
+    }
+
+    if (limits.maxOpenOrders !== undefined && !existing) {
+      const openOrders = this.openOrders(orders).length + prior.length;
+      if (openOrders >= limits.maxOpenOrders) {
+        violations.push({ rule: 'maxOpenOrders', message: `${openOrders} orders are already open, the maximum is ${limits.maxOpenOrders}`, limit: limits.maxOpenOrders, actual: openOrders });
+      }
+    }
+
+    if (limits.dailyLossLimit !== undefined && increasesRisk) {
+      const pnl = this.dailyPnl(net);
+      if (-pnl >= limits.dailyLossLimit) {
+        violations.push({
+          rule: 'dailyLossLimit',
+          message: `Daily loss ${(-pnl).toFixed(2)} has reached the limit ${limits.dailyLossLimit}; only risk-reducing orders are allowed`,
+          limit: limits.dailyLossLimit,
+          actual: -pnl,
+        });
+      }
+    }
+
+    await this.checkLiquidity(order, violations);
+    return violations;
+  }
+
+  private throwIfAny(violations: RiskViolation[]): void {
+    if (violations.length > 0) {
+      throw new RiskLimitError(violations);
+    }
+  }
+
+  /**
+   * Check a new order, throwing RiskLimitError if any limit is broken
+   */
+  async checkOrder(order: OrderPlacement): Promise<void> {
+    this.throwIfAny(await this.check(order));
+  }
+
+  /**
+   * Check the legs of a basket as they add up: each leg is checked as if the
+   * legs before it were already open, so legs that pass one by one cannot
+   * break the position and open order limits together
+   */
+  async checkBasket(legs: OrderPlacement[]): Promise<void> {
+    const violations: RiskViolation[] = [];
+    for (const [index, leg] of legs.entries()) {
+      for (const violation of await this.check(leg, undefined, legs.slice(0, index))) {
+        violations.push({ ...violation, message: `orders[${index}]: ${violation.message}` });
+      }
+    }
+    this.throwIfAny(violations);
+  }
+
+  /**
+   * Check a modification of an existing order, throwing RiskLimitError if the
+   * modified order would break any limit
+   */
+  async checkModify(orderId: string, changes: Partial<OrderPlacement>): Promise<void> {
+    const existing = (await this.broker.getOrders()).find((order) => order.order_id === orderId);
+    if (!existing) {
+      return;
+    }
+
+    this.throwIfAny(await this.check({
+      exchange: existing.exchange,
+      tradingsymbol: existing.tradingsymbol,
+      transaction_type: existing.transaction_type as OrderPlacement['transaction_type'],
+      product: existing.product as OrderPlacement['product'],
+      quantity: changes.quantity ?? existing.quantity,
+      order_type: changes.order_type ?? existing.order_type as OrderPlacement['order_type'],
+      price: changes.price ?? existing.price,
+      trigger_price: changes.trigger_price ?? existing.trigger_price,
+    }, existing));
+  }
+
+  /**
+   * Check the orders of a GTT trigger. Only the list and order value limits
+   * apply; position, open order and loss limits depend on the account when
+   * the trigger fires.
+   */
+  async checkGTT(orders: GTTOrder[]): Promise<void> {
+    const violations: RiskViolation[] = [];
+    for (const order of orders) {
+      this.checkLists(order, violations);
+      this.checkOrderValue(order.price * order.quantity, violations);
+    }
+
+    if (violations.length > 0) {
+      const unique = violations.filter((violation, index) => violations.findIndex((v) => v.message === violation.message) === index);
+      throw new RiskLimitError(unique);
+    }
+  }
+
+  /**
+   * Current usage against each configured limit
+   */
+  async getStatus(): Promise<Record<string, unknown>> {
+    const limits = this.limits;
+    const { net } = await this.broker.getPositions();
+    const orders = await this.broker.getOrders();
+    const openOrders = this.openOrders(orders).length;
+    const pnl = this.dailyPnl(net);
+
+    const quantities = new Map<string, number>();
+    for (const position of net) {
+      quantities.set(symbolKey(position), (quantities.get(symbolKey(position)) ?? 0) + position.quantity);
+    }
+
+    return {
+      limits,
+      maxOpenOrders: limits.maxOpenOrders !== undefined
+        ? { limit: limits.maxOpenOrders, used: openOrders, remaining: Math.max(limits.maxOpenOrders - openOrders, 0) }
+        : { limit: null, used: openOrders },
+      dailyLossLimit: {
+        limit: limits.dailyLossLimit ?? null,
+        pnl,
+        loss: Math.max(-pnl, 0),
+        breached: limits.dailyLossLimit !== undefined && -pnl >= limits.dailyLossLimit,
+      },
+      maxQuantityPerSymbol: {
+        limit: limits.maxQuantityPerSymbol ?? null,
+        positions: [...quantities.entries()]
+          .filter(([, quantity]) => quantity !== 0)
+          .map(([symbol, quantity]) => ({
+            symbol,
+            quantity,
+            ...(limits.maxQuantityPerSymbol !== undefined && { remaining: Math.max(limits.maxQuantityPerSymbol - Math.abs(quantity), 0) }),
+          })),
+      },
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import { KiteTicker } from './ticker.js';
+import { InstrumentMaster } from './instrument-master.js';
+import { logger } from './logger.js';
+import type { Order, Tick, TickMode } from './types/zerodha.js';
+
+export const DEFAULT_URI_PREFIX = 'kite://';
+
+const DEFAULT_NOTIFY_INTERVAL_MS = 1000;
+const MAX_ORDER_UPDATES = 100;
+
+const log = logger.child('ticker');
+
+export interface TickSubscription {
+  instrument: string;
+  instrument_token: number;
+  mode: TickMode;
+  uri: string;
+}
+
+export interface TickResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * Bridges the Kite ticker to MCP resources. Latest ticks are kept per
+ * instrument under kite://ticks/EXCHANGE:TRADINGSYMBOL and resource update
+ * notifications are throttled per URI. Hubs for other accounts use their own
+ * prefix, e.g. kite://accounts/NAME/ticks/.
+ */
+export class TickHub {
+  private ticker: KiteTicker;
+  private instrumentMaster: InstrumentMaster;
+  private notify: (uri: string) => void;
+  private notifyIntervalMs: number;
+  private tickUriPrefix: string;
+  private orderUpdatesUri: string;
+
+  private subscriptions = new Map<number, TickSubscription>();
+  private latestTicks = new Map<number, Tick>();
+  private orderUpdates: Order[] = [];
+  private resourceSubscribers = new Set<string>();
+  private lastNotified = new Map<string, number>();
+  private pendingNotifications = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    ticker: KiteTicker,
+    instrumentMaster: InstrumentMaster,
+    notify: (uri: string) => void,
+    notifyIntervalMs?: number,
+    uriPrefix = DEFAULT_URI_PREFIX
+  ) {
+    this.ticker = ticker;
+    this.instrumentMaster = instrumentMaster;
+    this.notify = notify;
+    this.notifyIntervalMs = notifyIntervalMs ?? DEFAULT_NOTIFY_INTERVAL_MS;
+    this.tickUriPrefix = `${uriPrefix}ticks/`;
+    this.orderUpdatesUri = `${uriPrefix}orders/updates`;
+
+    this.ticker.on('ticks', (ticks: Tick[]) => this.handleTicks(ticks));
+    this.ticker.on('order_update', (order: Order) => this.handleOrderUpdate(order));
+    this.ticker.on('error', (error: Error) => log.error('❌ Ticker error', { error }));
+  }
+
+  /**
+   * Whether a resource URI belongs to this hub
+   */
+  handles(uri: string): boolean {
+    return uri === this.orderUpdatesUri || uri.startsWith(this.tickUriPrefix);
+  }
+
+  private async resolve(instrument: string): Promise<{ key: string; token: number }> {
+    const match = await this.instrumentMaster.require(instrument);
+    return { key: `${match.exchange}:${match.tradingsymbol}`, token: match.instrument_token };
+  }
+
+  async subscribe(instruments: string[], mode: TickMode): Promise<TickSubscription[]> {
+    const resolved = await Promise.all(instruments.map((instrument) => this.resolve(instrument)));
+    const added = resolved.map(({ key, token }) => {
+      const subscription = { instrument: key, instrument_token: token, mode, uri: `${this.tickUriPrefix}${key}` };
+      this.subscriptions.set(token, subscription);
+      return subscription;
+    });
+
+    this.ticker.subscribe(added.map((subscription) => subscription.instrument_token), mode);
+    return added;
+  }
+
+  async unsubscribe(instruments: string[]): Promise<TickSubscription[]> {
+    const resolved = await Promise.all(instruments.map((instrument) => this.resolve(instrument)));
+    const removed = resolved
+      .map(({ token }) => this.subscriptions.get(token))
+      .filter((subscription): subscription is TickSubscription => !!subscription);
+
+    removed.forEach((subscription) => {
+      this.subscriptions.delete(subscription.instrument_token);
+      this.latestTicks.delete(subscription.instrument_token);
+      this.resourceSubscribers.delete(subscription.uri);
+    });
+    this.ticker.unsubscribe(removed.map((subscription) => subscription.instrument_token));
+    return removed;
+  }
+
+  /**
+   * Start sending update notifications for a resource, streaming the
+   * instrument first if it is not subscribed yet
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    if (uri.startsWith(this.tickUriPrefix)) {
+      const { token } = await this.resolve(uri.slice(this.tickUriPrefix.length));
+      if (!this.subscriptions.has(token)) {
+        await this.subscribe([uri.slice(this.tickUriPrefix.length)], 'quote');
+      }
+    } else if (uri !== this.orderUpdatesUri) {
+      throw new Error(`Unknown resource ${uri}`);
+    }
+    this.ticker.connect();
+    this.resourceSubscribers.add(uri);
+  }
+
+  unsubscribeResource(uri: string): void {
+    this.resourceSubscribers.delete(uri);
+  }
+
+  listResources(): TickResource[] {
+    return [
+      {
+        uri: this.orderUpdatesUri,
+        name: 'Order updates',
+        description: 'Most recent order updates pushed by Kite',
+        mimeType: 'application/json',
+      },
+      ...[...this.subscriptions.values()].map((subscription) => ({
+        uri: subscription.uri,
+        name: `${subscription.instrument} ticks`,
+        description: `Latest ${subscription.mode} tick for ${subscription.instrument}`,
+        mimeType: 'application/json',
+      })),
+    ];
+  }
+
+  async read(uri: string): Promise<unknown> {
+    if (uri === this.orderUpdatesUri) {
+      return { connected: this.ticker.connected, updates: this.orderUpdates };
+    }
+    if (!uri.startsWith(this.tickUriPrefix)) {
+      throw new Error(`Unknown resource ${uri}`);
+    }
+
+    const { key, token } = await this.resolve(uri.slice(this.tickUriPrefix.length));
+    if (!this.subscriptions.has(token)) {
+      throw new Error(`${key} is not subscribed. Call subscribe_ticks first or subscribe to ${uri}`);
+    }
+    return {
+      instrument: key,
+      connected: this.ticker.connected,
+      tick: this.latestTicks.get(token) ?? null,
+    };
+  }
+
+  private handleTicks(ticks: Tick[]): void {
+    for (const tick of ticks) {
+      const subscription = this.subscriptions.get(tick.instrument_token);
+      if (!subscription) {
+        continue;
+      }
+      this.latestTicks.set(tick.instrument_token, tick);
+      this.scheduleNotification(subscription.uri);
+    }
+  }
+
+  private handleOrderUpdate(order: Order): void {
+    this.orderUpdates = [order, ...this.orderUpdates].slice(0, MAX_ORDER_UPDATES);
+    this.scheduleNotification(this.orderUpdatesUri);
+  }
+
+  private scheduleNotification(uri: string): void {
+    if (!this.resourceSubscribers.has(uri) || this.pendingNotifications.has(uri)) {
+      return;
+    }
+
+    const wait = (this.lastNotified.get(uri) ?? 0) + this.notifyIntervalMs - Date.now();
+    const send = () => {
+      this.pendingNotifications.delete(uri);
+      this.lastNotified.set(uri, Date.now());
+      if (this.resourceSubscribers.has(uri)) {
+        this.notify(uri);
+      }
+    };
+
+    if (wait <= 0) {
+      send();
+    } else {
+      this.pendingNotifications.set(uri, setTimeout(send, wait));
+    }
+  }
+
+  close(): void {
+    this.pendingNotifications.forEach((timer) => clearTimeout(timer));
+    this.pendingNotifications.clear();
+    this.ticker.close();
+  }
+}
@@ -0,0 +1,288 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import type { OrderBookEntry, Order, Tick, TickMode } from './types/zerodha.js';
+
+const DEFAULT_TICKER_URL = 'wss://ws.kite.trade';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+// Packet sizes of each streaming mode
+const LTP_PACKET = 8;
+const INDEX_QUOTE_PACKET = 28;
+const INDEX_FULL_PACKET = 32;
+const QUOTE_PACKET = 44;
+const FULL_PACKET = 184;
+
+// Exchange segments, carried in the low byte of the instrument token
+const SEGMENT_CDS = 3;
+const SEGMENT_BCD = 6;
+const SEGMENT_INDICES = 9;
+
+export interface KiteTickerOptions {
+  apiKey: string;
+  accessToken: string;
+  url?: string;
+  maxReconnectAttempts?: number;
+}
+
+function priceDivisor(instrumentToken: number): number {
+  const segment = instrumentToken & 0xff;
+  if (segment === SEGMENT_CDS) return 10_000_000;
+  if (segment === SEGMENT_BCD) return 10_000;
+  return 100;
+}
+
+function epochToIso(seconds: number): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function parseDepth(packet: Buffer, divisor: number): { buy: OrderBookEntry[]; sell: OrderBookEntry[] } {
+  const entries: OrderBookEntry[] = [];
+  for (let offset = 64; offset + 12 <= FULL_PACKET; offset += 12) {
+    entries.push({
+      quantity: packet.readUInt32BE(offset),
+      price: packet.readInt32BE(offset + 4) / divisor,
+      orders: packet.readUInt16BE(offset + 8),
+    });
+  }
+  return { buy: entries.slice(0, 5), sell: entries.slice(5, 10) };
+}
+
+/**
+ * Decode a single packet from Kite's binary streaming format
+ */
+export function parsePacket(packet: Buffer): Tick | null {
+  if (packet.length < LTP_PACKET) {
+    return null;
+  }
+
+  const instrumentToken = packet.readUInt32BE(0);
+  const divisor = priceDivisor(instrumentToken);
+  const tradable = (instrumentToken & 0xff) !== SEGMENT_INDICES;
+  const price = (offset: number) => packet.readInt32BE(offset) / divisor;
+
+  if (packet.length === LTP_PACKET) {
+    return { mode: 'ltp', tradable, instrument_token: instrumentToken, last_price: price(4) };
+  }
+
+  if (packet.length === INDEX_QUOTE_PACKET || packet.length === INDEX_FULL_PACKET) {
+    const close = price(20);
+    const lastPrice = price(4);
+    return {
+      mode: packet.length === INDEX_FULL_PACKET ? 'full' : 'quote',
+      tradable,
+      instrument_token: instrumentToken,
+      last_price: lastPrice,
+      ohlc: { high: price(8), low: price(12), open: price(16), close },
+      change: close ? ((lastPrice - close) * 100) / close : 0,
+      ...(packet.length === INDEX_FULL_PACKET && { exchange_timestamp: epochToIso(packet.readUInt32BE(28)) }),
+    };
+  }
+
+  if (packet.length === QUOTE_PACKET || packet.length === FULL_PACKET) {
+    const close = price(40);
+    const lastPrice = price(4);
+    const tick: Tick = {
+      mode: packet.length === FULL_PACKET ? 'full' : 'quote',
+      tradable,
+      instrument_token: instrumentToken,
+      last_price: lastPrice,
+      last_traded_quantity: packet.readUInt32BE(8),
+      average_traded_price: price(12),
+      volume_traded: packet.readUInt32BE(16),
+      total_buy_quantity: packet.readUInt32BE(20),
+      total_sell_quantity: packet.readUInt32BE(24),
+      ohlc: { open: price(28), high: price(32), low: price(36), close },
+      change: close ? ((lastPrice - close) * 100) / close : 0,
+    };
+
+    if (packet.length === FULL_PACKET) {
+      tick.last_trade_time = epochToIso(packet.readUInt32BE(44));
+      tick.oi = packet.readUInt32BE(48);
+      tick.oi_day_high = packet.readUInt32BE(52);
+      tick.oi_day_low = packet.readUInt32BE(56);
+      tick.exchange_timestamp = epochToIso(packet.readUInt32BE(60));
+      tick.depth = parseDepth(packet, divisor);
+    }
+    return tick;
+  }
+
+  return null;
+}
+
+/**
+ * Split a binary message into packets and decode each one. Single-byte
+ * messages are heartbeats and carry no ticks.
+ */
+export function parseBinaryMessage(message: Buffer): Tick[] {
+  if (message.length < 2) {
+    return [];
+  }
+
+  const ticks: Tick[] = [];
+  const packetCount = message.readUInt16BE(0);
+  let offset = 2;
+  for (let i = 0; i < packetCount && offset + 2 <= message.length; i++) {
+    const length = message.readUInt16BE(offset);
+    const tick = parsePacket(message.subarray(offset + 2, offset + 2 + length));
+    if (tick) {
+      ticks.push(tick);
+    }
+    offset += 2 + length;
+  }
+  return ticks;
+}
+
+/**
+ * Client for Kite's WebSocket streaming API. Emits `ticks`, `order_update`,
+ * `connect`, `disconnect`, `reconnect` and `error`. Subscriptions survive
+ * reconnects and are replayed as soon as the socket reopens.
+ */
+export class KiteTicker extends EventEmitter {
+  private options: KiteTickerOptions;
+  private socket: WebSocket | null = null;
+  private modes = new Map<number, TickMode>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closedByUser = false;
+
+  constructor(options: KiteTickerOptions) {
+    super();
+    this.options = options;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Tokens currently subscribed, with their streaming mode
+   */
+  get subscriptions(): Map<number, TickMode> {
+    return new Map(this.modes);
+  }
+
+  connect(): void {
+    if (this.socket && this.socket.readyState !== WebSocket.CLOSED) {
+      return;
+    }
+    this.closedByUser = false;
+
+    const url = new URL(this.options.url || DEFAULT_TICKER_URL);
+    url.searchParams.set('api_key', this.options.apiKey);
+    url.searchParams.set('access_token', this.options.accessToken);
+
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0;
+      this.resubscribe();
+      this.emit('connect');
+    });
+
+    socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+      if (isBinary) {
+        const ticks = parseBinaryMessage(Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer));
+        if (ticks.length > 0) {
+          this.emit('ticks', ticks);
+        }
+      } else {
+        this.handleTextMessage(data.toString());
+      }
+    });
+
+    socket.on('error', (error) => this.emit('error', error));
+
+    socket.on('close', (code, reason) => {
+      this.socket = null;
+      this.emit('disconnect', code, reason.toString());
+      if (!this.closedByUser) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Use a new access token, reconnecting straight away if a socket is open
+   */
+  setAccessToken(accessToken: string): void {
+    this.options = { ...this.options, accessToken };
+    if (this.socket) {
+      this.reconnectAttempts = 0;
+      this.socket.close();
+    }
+  }
+
+  close(): void {
+    this.closedByUser = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+  }
+
+  subscribe(tokens: number[], mode: TickMode = 'quote'): void {
+    tokens.forEach((token) => this.modes.set(token, mode));
+    if (this.connected) {
+      this.send({ a: 'subscribe', v: tokens });
+      this.send({ a: 'mode', v: [mode, tokens] });
+    } else {
+      this.connect();
+    }
+  }
+
+  unsubscribe(tokens: number[]): void {
+    tokens.forEach((token) => this.modes.delete(token));
+    if (this.connected) {
+      this.send({ a: 'unsubscribe', v: tokens });
+    }
+  }
+
+  private send(message: unknown): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private resubscribe(): void {
+    const byMode = new Map<TickMode, number[]>();
+    for (const [token, mode] of this.modes) {
+      byMode.set(mode, [...(byMode.get(mode) || []), token]);
+    }
+    for (const [mode, tokens] of byMode) {
+      this.send({ a: 'subscribe', v: tokens });
+      this.send({ a: 'mode', v: [mode, tokens] });
+    }
+  }
+
+  private handleTextMessage(text: string): void {
+    let message: { type?: string; data?: unknown };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'order') {
+      this.emit('order_update', message.data as Order);
+    } else if (message.type === 'error') {
+      this.emit('error', new Error(String(message.data)));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const maxAttempts = this.options.maxReconnectAttempts ?? Infinity;
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.emit('error', new Error(`Gave up reconnecting to the ticker after ${this.reconnectAttempts} attempts`));
+      return;
+    }
+
+    const delay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+    this.emit('reconnect', this.reconnectAttempts, delay);
+  }
+}
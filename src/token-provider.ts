@@ -0,0 +1,138 @@
+import { EventEmitter } from 'events';
+import { promises as fs, watchFile, unwatchFile, type Stats } from 'fs';
+import { logger } from './logger.js';
+
+const TOKEN_FILE_POLL_MS = 1000;
+
+/**
+ * Source of the Kite access token, consulted by ZerodhaClient before every request
+ */
+export interface TokenProvider {
+  /** Token for the next request, or null once the session has expired */
+  getAccessToken(): string | null;
+  /** Report that Kite rejected `token` with a TokenException */
+  markExpired(token: string): void;
+}
+
+export interface SessionStatus {
+  state: 'active' | 'expired';
+  updated_at: string;
+  expired_at?: string;
+  token_file?: string;
+}
+
+/**
+ * Read an access token from a file holding either the bare token, JSON with
+ * an `access_token` field, or a .env file with ZERODHA_ACCESS_TOKEN
+ */
+export async function readTokenFile(file: string): Promise<string | null> {
+  let content: string;
+  try {
+    content = (await fs.readFile(file, 'utf-8')).trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  if (content.startsWith('{')) {
+    const token = JSON.parse(content).access_token;
+    return typeof token === 'string' && token ? token : null;
+  }
+  const envLine = content.match(/^\s*ZERODHA_ACCESS_TOKEN\s*=\s*["']?([^"'\s#]+)/m);
+  if (envLine) {
+    return envLine[1] === 'your_access_token' ? null : envLine[1];
+  }
+  return content.includes('=') || /\s/.test(content) || !content ? null : content;
+}
+
+/**
+ * Holds the current session's access token. A TokenException marks the
+ * session expired until a different token is set, either directly or by a
+ * change to the watched token file. Emits `token` and `expired`.
+ */
+export class SessionTokenProvider extends EventEmitter implements TokenProvider {
+  private token: string;
+  private expired = false;
+  private updatedAt = new Date();
+  private expiredAt: Date | null = null;
+  private tokenFile: string | null = null;
+  private onFileChange: ((current: Stats, previous: Stats) => void) | null = null;
+
+  constructor(token: string) {
+    super();
+    this.token = token;
+    logger.addSecret(token);
+  }
+
+  getAccessToken(): string | null {
+    return this.expired ? null : this.token;
+  }
+
+  get status(): SessionStatus {
+    return {
+      state: this.expired ? 'expired' : 'active',
+      updated_at: this.updatedAt.toISOString(),
+      ...(this.expiredAt && { expired_at: this.expiredAt.toISOString() }),
+      ...(this.tokenFile && { token_file: this.tokenFile }),
+    };
+  }
+
+  /**
+   * Swap in a new token, reviving an expired session
+   */
+  setAccessToken(token: string): void {
+    if (token === this.token && !this.expired) {
+      return;
+    }
+    const changed = token !== this.token;
+    this.token = token;
+    logger.addSecret(token);
+    this.expired = false;
+    this.expiredAt = null;
+    this.updatedAt = new Date();
+    if (changed) {
+      this.emit('token', token);
+    }
+  }
+
+  markExpired(token: string): void {
+    // A request that was in flight when the token was replaced must not expire the new one
+    if (token !== this.token || this.expired) {
+      return;
+    }
+    this.expired = true;
+    this.expiredAt = new Date();
+    this.emit('expired');
+  }
+
+  /**
+   * Pick up tokens written to a file, e.g. by a separate login script
+   */
+  watchFile(file: string): void {
+    this.unwatch();
+    this.tokenFile = file;
+    this.onFileChange = (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      readTokenFile(file)
+        .then((token) => {
+          if (token && token !== this.token) {
+            this.setAccessToken(token);
+          }
+        })
+        .catch((error) => this.emit('error', error));
+    };
+    watchFile(file, { interval: TOKEN_FILE_POLL_MS, persistent: false }, this.onFileChange);
+  }
+
+  unwatch(): void {
+    if (this.tokenFile && this.onFileChange) {
+      unwatchFile(this.tokenFile, this.onFileChange);
+    }
+    this.tokenFile = null;
+    this.onFileChange = null;
+  }
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { logger } from './logger.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const FORMAT_VERSION = 1;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+// Kite access tokens stop working at 06:00 IST the day after login
+const EXPIRY_HOUR_IST = 6;
+
+const log = logger.child('token-store');
+
+export interface StoredSession {
+  access_token: string;
+  user_id?: string;
+  /** ISO timestamp of the login */
+  login_time: string;
+  /** ISO timestamp after which Kite no longer accepts the token */
+  expires_at: string;
+}
+
+interface EncryptedFile {
+  version: number;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Parse Kite's login_time ("2024-01-25 09:15:00", IST without an offset)
+ */
+export function parseKiteTime(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const date = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? new Date(`${value.replace(' ', 'T')}+05:30`)
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * When a token issued at `loginTime` expires: the next 06:00 IST
+ */
+export function sessionExpiry(loginTime: Date): Date {
+  const ist = new Date(loginTime.getTime() + IST_OFFSET_MS);
+  const expiry = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate(), EXPIRY_HOUR_IST) - IST_OFFSET_MS;
+  return new Date(expiry > loginTime.getTime() ? expiry : expiry + 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Keeps the current Kite session in a file readable only by the user,
+ * encrypted with a key derived from the API secret or a passphrase. Sessions
+ * from a previous trading day are treated as absent.
+ */
+export class TokenStore {
+  readonly file: string;
+  private secret: string;
+
+  constructor(secret: string, file = path.join(os.homedir(), '.kitelink', 'session.enc')) {
+    this.secret = secret;
+    this.file = path.resolve(file);
+  }
+
+  /**
+   * The stored session, or null when there is none, it has expired or it
+   * cannot be decrypted (e.g. the API secret or passphrase changed)
+   */
+  async load(now = new Date()): Promise<StoredSession | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let session: StoredSession;
+    try {
+      session = JSON.parse(await this.decrypt(JSON.parse(content)));
+    } catch (error) {
+      log.warning('⚠️  Ignoring the stored session: it could not be decrypted', { file: this.file });
+      return null;
+    }
+
+    if (new Date(session.expires_at).getTime() <= now.getTime()) {
+      log.info('Ignoring the stored session from a previous trading day', { user_id: session.user_id, expires_at: session.expires_at });
+      return null;
+    }
+    logger.addSecret(session.access_token);
+    return session;
+  }
+
+  async save(session: { access_token: string; user_id?: string; login_time?: string | Date }): Promise<StoredSession> {
+    const loginTime = session.login_time instanceof Date
+      ? session.login_time
+      : parseKiteTime(session.login_time) ?? new Date();
+    const stored: StoredSession = {
+      access_token: session.access_token,
+      ...(session.user_id && { user_id: session.user_id }),
+      login_time: loginTime.toISOString(),
+      expires_at: sessionExpiry(loginTime).toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    // Write a private temporary file and rename it, so the token is never readable by others
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(await this.encrypt(JSON.stringify(stored))), { encoding: 'utf-8', mode: 0o600 });
+    await fs.chmod(temp, 0o600);
+    await fs.rename(temp, this.file);
+    log.info(`📝 Session saved to ${this.file}`, { user_id: stored.user_id, expires_at: stored.expires_at });
+    return stored;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+
+  private async encrypt(plaintext: string): Promise<EncryptedFile> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await scrypt(this.secret, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      version: FORMAT_VERSION,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  private async decrypt(file: EncryptedFile): Promise<string> {
+    if (file.version !== FORMAT_VERSION || file.kdf !== 'scrypt') {
+      throw new Error(`Unsupported token store format ${file.version}`);
+    }
+    const key = await scrypt(this.secret, Buffer.from(file.salt, 'base64'), 32);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+}
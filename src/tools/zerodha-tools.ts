@@ -1,4 +1,57 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { OrderVariety } from '../types/zerodha.js';
+
+// Each variety has its own Kite endpoint, /orders/<variety>
+export const ORDER_VARIETIES: OrderVariety[] = ['regular', 'amo', 'co', 'iceberg', 'auction'];
+
+const authStatusTool: Tool = {
+  name: 'auth_status',
+  description: 'Show whether the server has a Kite session (active, expired or not logged in) and any login in progress',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const getLoginUrlTool: Tool = {
+  name: 'get_login_url',
+  description: 'Get the Kite login URL for the user to open. When a local redirect URL is configured, the login completes by itself after the redirect; otherwise pass the redirect URL to complete_login',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const completeLoginTool: Tool = {
+  name: 'complete_login',
+  description: 'Finish logging in with the request_token from the Kite redirect, or the full URL the browser was redirected to after login',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      request_token: {
+        type: 'string',
+        description: 'request_token query parameter of the redirect URL',
+      },
+      redirect_url: {
+        type: 'string',
+        description: 'Full URL the browser was redirected to (e.g., https://example.com/callback?request_token=...&status=success)',
+      },
+    },
+    required: [],
+  },
+};
+
+const listAccountsTool: Tool = {
+  name: 'list_accounts',
+  description: 'List the configured Kite accounts, which one is the default, and whether each is logged in. Pass a name as the account argument of other tools to use that account',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
 
 const getProfileTool: Tool = {
   name: 'get_profile',
@@ -21,22 +74,240 @@ const getMarginsTool: Tool = {
 };
 
 
+const pagingProperties = {
+  limit: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 500,
+    description: 'Maximum number of instruments to return',
+    default: 50,
+  },
+  offset: {
+    type: 'integer',
+    minimum: 0,
+    description: 'Number of matching instruments to skip',
+    default: 0,
+  },
+};
+
 const getInstrumentsTool: Tool = {
   name: 'get_instruments',
-  description: 'Get list of all tradable instruments or instruments for a specific exchange',
+  description: 'Get a page of tradable instruments, optionally for a specific exchange, from the locally cached instrument master',
   inputSchema: {
     type: 'object',
     properties: {
       exchange: {
         type: 'string',
         enum: ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX'],
-        description: 'Exchange name (optional). If not provided, returns all instruments',
+        description: 'Exchange name (optional). If not provided, returns instruments across all exchanges',
+      },
+      ...pagingProperties,
+    },
+    required: [],
+  },
+};
+
+const searchInstrumentsTool: Tool = {
+  name: 'search_instruments',
+  description: 'Search the locally cached instrument master by name or symbol, exchange, segment, instrument type, expiry range and strike range',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Case-insensitive substring of the tradingsymbol or name (e.g., INFY, NIFTY)',
+      },
+      exchange: {
+        type: 'string',
+        enum: ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'BCD', 'MCX', 'NCO'],
+        description: 'Exchange name',
+      },
+      segment: {
+        type: 'string',
+        description: 'Segment (e.g., NSE, NFO-OPT, NFO-FUT, INDICES)',
+      },
+      instrument_type: {
+        type: 'string',
+        description: 'Instrument type (e.g., EQ, FUT, CE, PE)',
+      },
+      expiry_from: {
+        type: 'string',
+        description: 'Earliest expiry date (yyyy-mm-dd)',
+      },
+      expiry_to: {
+        type: 'string',
+        description: 'Latest expiry date (yyyy-mm-dd)',
+      },
+      strike_min: {
+        type: 'number',
+        description: 'Minimum strike price',
       },
+      strike_max: {
+        type: 'number',
+        description: 'Maximum strike price',
+      },
+      ...pagingProperties,
     },
     required: [],
   },
 };
 
+const instrumentsProperty = {
+  type: 'array',
+  items: { type: 'string' },
+  minItems: 1,
+  description: 'Instruments as EXCHANGE:TRADINGSYMBOL (e.g., NSE:INFY) or bare instrument tokens (e.g., 408065)',
+};
+
+const getQuoteTool: Tool = {
+  name: 'get_quote',
+  description: 'Get full market quotes including OHLC, volume, open interest and, on request, market depth (max 500 instruments per request, larger lists are batched)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruments: instrumentsProperty,
+      include_depth: {
+        type: 'boolean',
+        description: 'Include the five best bids and offers of each instrument',
+        default: false,
+      },
+    },
+    required: ['instruments'],
+  },
+};
+
+const getOHLCTool: Tool = {
+  name: 'get_ohlc',
+  description: 'Get OHLC and last traded price for instruments (max 1000 instruments per request, larger lists are batched)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruments: instrumentsProperty,
+    },
+    required: ['instruments'],
+  },
+};
+
+const getLTPTool: Tool = {
+  name: 'get_ltp',
+  description: 'Get last traded price for instruments (max 1000 instruments per request, larger lists are batched)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruments: instrumentsProperty,
+    },
+    required: ['instruments'],
+  },
+};
+
+const getHistoricalDataTool: Tool = {
+  name: 'get_historical_data',
+  description: 'Get historical OHLCV candles for an instrument. Any date range is accepted; long ranges are fetched in chunks that respect Kite\'s per-interval limits',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instrument: {
+        type: 'string',
+        description: 'Instrument as EXCHANGE:TRADINGSYMBOL (e.g., NSE:INFY) or instrument token (e.g., 408065)',
+      },
+      interval: {
+        type: 'string',
+        enum: ['minute', '3minute', '5minute', '10minute', '15minute', '30minute', '60minute', 'day'],
+        description: 'Candle interval',
+      },
+      from_date: {
+        type: 'string',
+        description: 'Start date (yyyy-mm-dd or yyyy-mm-dd hh:mm:ss)',
+      },
+      to_date: {
+        type: 'string',
+        description: 'End date (yyyy-mm-dd or yyyy-mm-dd hh:mm:ss)',
+      },
+      continuous: {
+        type: 'boolean',
+        description: 'Return continuous data for expired futures contracts (day interval only)',
+        default: false,
+      },
+      oi: {
+        type: 'boolean',
+        description: 'Include open interest in each candle',
+        default: false,
+      },
+    },
+    required: ['instrument', 'interval', 'from_date', 'to_date'],
+  },
+};
+
+const getOptionChainTool: Tool = {
+  name: 'get_option_chain',
+  description: 'Build a strike-ordered option chain for an underlying and expiry with LTP, OI, OI change, volume, bid/ask, implied volatility and Black-Scholes greeks (delta, gamma, theta, vega, rho). OI change is measured from the previous trading day\'s closing OI, which needs the historical data API',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      underlying: {
+        type: 'string',
+        description: 'Underlying name as in the instrument master (e.g., NIFTY, BANKNIFTY, RELIANCE)',
+      },
+      expiry: {
+        type: 'string',
+        description: 'Expiry date (yyyy-mm-dd) or "nearest"',
+        default: 'nearest',
+      },
+      exchange: {
+        type: 'string',
+        enum: ['NFO', 'BFO', 'CDS', 'BCD', 'MCX'],
+        description: 'Derivatives exchange',
+        default: 'NFO',
+      },
+      strikes_around_atm: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Only include this many strikes on each side of the at-the-money strike',
+      },
+      risk_free_rate: {
+        type: 'number',
+        minimum: 0,
+        description: 'Annualised risk-free rate for IV and greeks (e.g., 0.07 for 7%). Defaults to OPTION_RISK_FREE_RATE or 0.07',
+      },
+      spot_instrument: {
+        type: 'string',
+        description: 'Instrument to read the spot price from (e.g., NSE:NIFTY 50). Inferred from the underlying when omitted',
+      },
+    },
+    required: ['underlying'],
+  },
+};
+
+const subscribeTicksTool: Tool = {
+  name: 'subscribe_ticks',
+  description: 'Stream live ticks for instruments over the Kite WebSocket. Each instrument is exposed as an MCP resource (kite://ticks/EXCHANGE:TRADINGSYMBOL) that can be read or subscribed to for update notifications',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruments: instrumentsProperty,
+      mode: {
+        type: 'string',
+        enum: ['ltp', 'quote', 'full'],
+        description: 'Streaming mode: ltp (price only), quote (OHLC and volume), full (adds OI and 5-level market depth)',
+        default: 'quote',
+      },
+    },
+    required: ['instruments'],
+  },
+};
+
+const unsubscribeTicksTool: Tool = {
+  name: 'unsubscribe_ticks',
+  description: 'Stop streaming live ticks for instruments',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruments: instrumentsProperty,
+    },
+    required: ['instruments'],
+  },
+};
+
 const getPositionsTool: Tool = {
   name: 'get_positions',
   description: 'Get current trading positions (both day and net positions)',
@@ -57,6 +328,120 @@ const getHoldingsTool: Tool = {
   },
 };
 
+const convertPositionTool: Tool = {
+  name: 'convert_position',
+  description: 'Convert all or part of an open position to another product, e.g. an intraday MIS position to CNC delivery. The quantity, product and direction are checked against the current position',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      exchange: {
+        type: 'string',
+        description: 'Exchange of the position',
+      },
+      tradingsymbol: {
+        type: 'string',
+        description: 'Trading symbol of the position',
+      },
+      quantity: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Quantity to convert, up to the size of the position',
+      },
+      old_product: {
+        type: 'string',
+        enum: ['CNC', 'MIS', 'NRML'],
+        description: 'Current product of the position',
+      },
+      new_product: {
+        type: 'string',
+        enum: ['CNC', 'MIS', 'NRML'],
+        description: 'Product to convert to: CNC for equity, NRML for derivatives and commodities',
+      },
+      transaction_type: {
+        type: 'string',
+        enum: ['BUY', 'SELL'],
+        description: 'Direction of the position: BUY for long, SELL for short. Taken from the position when omitted',
+      },
+      position_type: {
+        type: 'string',
+        enum: ['day', 'overnight'],
+        description: 'day for positions traded today, overnight for positions carried forward. Taken from the position when omitted',
+      },
+    },
+    required: ['exchange', 'tradingsymbol', 'quantity', 'old_product', 'new_product'],
+  },
+};
+
+const getHoldingsAuthorisationTool: Tool = {
+  name: 'get_holdings_authorisation',
+  description: 'Get how much of each holding is authorised through CDSL for selling today, and how much still needs authorising',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const authoriseHoldingsTool: Tool = {
+  name: 'authorise_holdings',
+  description: 'Start a CDSL authorisation of holdings for selling. Returns a URL where the user enters their TPIN; the authorisation lasts for the trading day',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      holdings: {
+        type: 'array',
+        minItems: 1,
+        description: 'Holdings to authorise. Omit to authorise all holdings',
+        items: {
+          type: 'object',
+          properties: {
+            isin: {
+              type: 'string',
+              description: 'ISIN of the holding',
+            },
+            tradingsymbol: {
+              type: 'string',
+              description: 'Trading symbol of the holding, instead of the ISIN',
+            },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Quantity to authorise. Defaults to the whole holding',
+            },
+          },
+        },
+      },
+    },
+    required: [],
+  },
+};
+
+const getCombinedHoldingsTool: Tool = {
+  name: 'get_combined_holdings',
+  description: 'Get holdings summed per instrument across all logged-in accounts, with each account\'s quantity, average price and P&L. Accounts that cannot be read are listed under errors',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const getCombinedPositionsTool: Tool = {
+  name: 'get_combined_positions',
+  description: 'Get net positions summed per instrument and product across all logged-in accounts, with each account\'s share. Accounts that cannot be read are listed under errors',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
 const getOrdersTool: Tool = {
   name: 'get_orders',
   description: 'Get list of all orders placed today',
@@ -85,13 +470,16 @@ const getOrderHistoryTool: Tool = {
 const placeOrderTool: Tool = {
   name: 'place_order',
   description: 'Place a new trading order',
+  annotations: {
+    readOnlyHint: false,
+  },
   inputSchema: {
     type: 'object',
     properties: {
       variety: {
         type: 'string',
-        enum: ['regular', 'co', 'bo', 'amo'],
-        description: 'Order variety',
+        enum: ORDER_VARIETIES,
+        description: 'Order variety: regular, amo (after market), co (cover order with a stop-loss), iceberg or auction',
         default: 'regular',
       },
       exchange: {
@@ -131,7 +519,7 @@ const placeOrderTool: Tool = {
       trigger_price: {
         type: 'number',
         minimum: 0,
-        description: 'Trigger price (required for SL and SL-M orders)',
+        description: 'Trigger price (required for SL and SL-M orders, and the stop-loss trigger of co orders)',
       },
       validity: {
         type: 'string',
@@ -139,10 +527,36 @@ const placeOrderTool: Tool = {
         description: 'Order validity',
         default: 'DAY',
       },
+      validity_ttl: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Minutes the order stays open (required for TTL validity)',
+      },
       disclosed_quantity: {
         type: 'integer',
         minimum: 0,
-        description: 'Disclosed quantity for iceberg orders',
+        description: 'Quantity disclosed to the market',
+      },
+      iceberg_legs: {
+        type: 'integer',
+        minimum: 2,
+        maximum: 10,
+        description: 'Number of legs to split the order into (required for the iceberg variety)',
+      },
+      iceberg_quantity: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Quantity of each iceberg leg (required for the iceberg variety)',
+      },
+      auction_number: {
+        type: 'string',
+        description: 'Auction to bid in (required for the auction variety)',
+      },
+      market_protection: {
+        type: 'number',
+        minimum: -1,
+        maximum: 100,
+        description: 'For MARKET and SL-M orders, the furthest percentage from the LTP the order may fill at; -1 lets Kite choose',
       },
       tag: {
         type: 'string',
@@ -157,12 +571,15 @@ const placeOrderTool: Tool = {
 const modifyOrderTool: Tool = {
   name: 'modify_order',
   description: 'Modify an existing order',
+  annotations: {
+    readOnlyHint: false,
+  },
   inputSchema: {
     type: 'object',
     properties: {
       variety: {
         type: 'string',
-        enum: ['regular', 'co', 'bo', 'amo'],
+        enum: ORDER_VARIETIES,
         description: 'Order variety',
         default: 'regular',
       },
@@ -200,15 +617,49 @@ const modifyOrderTool: Tool = {
   },
 };
 
+const placeBasketTool: Tool = {
+  name: 'place_basket',
+  description: 'Place a multi-leg trade (pair, hedge, spread) as one basket. All legs are validated and the basket margin is checked first; buying legs are placed before selling legs. If a leg fails, open legs are cancelled and, with square_off_on_failure, filled legs are squared off. Returns the status of every leg',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      orders: {
+        type: 'array',
+        minItems: 2,
+        maxItems: 20,
+        description: 'Legs of the basket, each with the same parameters as place_order',
+        items: placeOrderTool.inputSchema,
+      },
+      square_off_on_failure: {
+        type: 'boolean',
+        description: 'If a leg fails, close legs that already filled with MARKET orders',
+        default: false,
+      },
+      check_margin: {
+        type: 'boolean',
+        description: 'Refuse the basket when the basket margin and charges exceed the available funds',
+        default: true,
+      },
+    },
+    required: ['orders'],
+  },
+};
+
 const cancelOrderTool: Tool = {
   name: 'cancel_order',
   description: 'Cancel an existing order',
+  annotations: {
+    readOnlyHint: false,
+  },
   inputSchema: {
     type: 'object',
     properties: {
       variety: {
         type: 'string',
-        enum: ['regular', 'co', 'bo', 'amo'],
+        enum: ORDER_VARIETIES,
         description: 'Order variety',
         default: 'regular',
       },
@@ -221,6 +672,298 @@ const cancelOrderTool: Tool = {
   },
 };
 
+const gttProperties = {
+  exchange: {
+    type: 'string',
+    enum: ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX'],
+    description: 'Exchange name',
+  },
+  tradingsymbol: {
+    type: 'string',
+    description: 'Trading symbol (e.g., INFY)',
+  },
+  trigger_type: {
+    type: 'string',
+    enum: ['single', 'two-leg'],
+    description: 'single: one trigger value and one order. two-leg: an OCO with a lower and an upper trigger value, e.g. a stop-loss and a target; when one fires the other is cancelled',
+  },
+  trigger_values: {
+    type: 'array',
+    items: { type: 'number', exclusiveMinimum: 0 },
+    minItems: 1,
+    maxItems: 2,
+    description: 'Last traded prices that fire the trigger: [value] for single, [lower, upper] for two-leg. A single value must be on the same side of the current LTP as the order price, e.g. below it for a SELL stop-loss; two-leg values must be below and above it',
+  },
+  orders: {
+    type: 'array',
+    minItems: 1,
+    maxItems: 2,
+    description: 'Limit orders placed when the trigger fires: one for single, one per trigger value for two-leg',
+    items: {
+      type: 'object',
+      properties: {
+        transaction_type: {
+          type: 'string',
+          enum: ['BUY', 'SELL'],
+          description: 'Transaction type',
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Number of shares/contracts',
+        },
+        price: {
+          type: 'number',
+          exclusiveMinimum: 0,
+          description: 'Limit price',
+        },
+        product: {
+          type: 'string',
+          enum: ['CNC', 'MIS', 'NRML'],
+          description: 'Product type',
+          default: 'CNC',
+        },
+      },
+      required: ['transaction_type', 'quantity', 'price'],
+    },
+  },
+};
+
+const triggerIdProperty = {
+  type: 'integer',
+  description: 'GTT trigger ID',
+};
+
+const getGTTsTool: Tool = {
+  name: 'get_gtts',
+  description: 'Get GTT (Good Till Triggered) triggers, including recently triggered and expired ones',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const getGTTTool: Tool = {
+  name: 'get_gtt',
+  description: 'Get a GTT trigger with its condition, orders and the result of any order it placed',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      trigger_id: triggerIdProperty,
+    },
+    required: ['trigger_id'],
+  },
+};
+
+const placeGTTTool: Tool = {
+  name: 'place_gtt',
+  description: 'Create a GTT trigger that places limit orders when the LTP reaches the trigger values, e.g. a stop-loss and target on a holding',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: gttProperties,
+    required: ['exchange', 'tradingsymbol', 'trigger_type', 'trigger_values', 'orders'],
+  },
+};
+
+const modifyGTTTool: Tool = {
+  name: 'modify_gtt',
+  description: 'Replace the trigger values and orders of an active GTT trigger',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      trigger_id: triggerIdProperty,
+      ...gttProperties,
+    },
+    required: ['trigger_id', 'exchange', 'tradingsymbol', 'trigger_type', 'trigger_values', 'orders'],
+  },
+};
+
+const deleteGTTTool: Tool = {
+  name: 'delete_gtt',
+  description: 'Delete a GTT trigger',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      trigger_id: triggerIdProperty,
+    },
+    required: ['trigger_id'],
+  },
+};
+
+const confirmOrderTool: Tool = {
+  name: 'confirm_order',
+  description: 'Execute an order or GTT request that returned a confirmation_token. Only call this after the user has reviewed and approved the preview',
+  annotations: {
+    readOnlyHint: false,
+  },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      confirmation_token: {
+        type: 'string',
+        description: 'Token returned by the original tool call',
+      },
+    },
+    required: ['confirmation_token'],
+  },
+};
+
+const marginOrdersProperty = {
+  type: 'array',
+  minItems: 1,
+  description: 'Orders with the same parameters as place_order',
+  items: {
+    type: 'object',
+    properties: {
+      variety: {
+        type: 'string',
+        enum: ORDER_VARIETIES,
+        default: 'regular',
+      },
+      exchange: {
+        type: 'string',
+        enum: ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX'],
+      },
+      tradingsymbol: {
+        type: 'string',
+      },
+      transaction_type: {
+        type: 'string',
+        enum: ['BUY', 'SELL'],
+      },
+      quantity: {
+        type: 'integer',
+        minimum: 1,
+      },
+      product: {
+        type: 'string',
+        enum: ['CNC', 'MIS', 'NRML', 'CO', 'BO'],
+      },
+      order_type: {
+        type: 'string',
+        enum: ['MARKET', 'LIMIT', 'SL', 'SL-M'],
+      },
+      price: {
+        type: 'number',
+        minimum: 0,
+      },
+      trigger_price: {
+        type: 'number',
+        minimum: 0,
+      },
+    },
+    required: ['exchange', 'tradingsymbol', 'transaction_type', 'quantity', 'product', 'order_type'],
+  },
+};
+
+const getOrderMarginsTool: Tool = {
+  name: 'get_order_margins',
+  description: 'Estimate the margin (SPAN, exposure, option premium) and charges each order needs on its own, and whether the available funds cover them',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      orders: marginOrdersProperty,
+    },
+    required: ['orders'],
+  },
+};
+
+const getBasketMarginsTool: Tool = {
+  name: 'get_basket_margins',
+  description: 'Estimate the margin for orders placed together, including the spread and hedge benefit, and whether the available funds cover it',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      orders: marginOrdersProperty,
+      consider_positions: {
+        type: 'boolean',
+        description: 'Count open positions towards the hedge benefit',
+        default: true,
+      },
+    },
+    required: ['orders'],
+  },
+};
+
+const getOrderChargesTool: Tool = {
+  name: 'get_order_charges',
+  description: 'Estimate brokerage, STT/CTT, exchange and SEBI charges, GST and stamp duty for orders filled at their price, or at the LTP when they have none',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      orders: marginOrdersProperty,
+    },
+    required: ['orders'],
+  },
+};
+
+const getRiskStatusTool: Tool = {
+  name: 'get_risk_status',
+  description: 'Show the configured pre-trade risk limits and current usage against each (open orders, daily loss, per-symbol quantity)',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const getAuditLogTool: Tool = {
+  name: 'get_audit_log',
+  description: 'Query the audit log of write tool calls (orders placed, modified, cancelled), newest first',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Earliest timestamp or date (ISO 8601, e.g., 2024-01-25)',
+      },
+      to: {
+        type: 'string',
+        description: 'Latest timestamp or date (ISO 8601, e.g., 2024-01-25)',
+      },
+      tool: {
+        type: 'string',
+        description: 'Only entries for this tool (e.g., place_order)',
+      },
+      symbol: {
+        type: 'string',
+        description: 'Only entries mentioning this tradingsymbol or EXCHANGE:TRADINGSYMBOL',
+      },
+      account: {
+        type: 'string',
+        description: 'Only entries for this account (see list_accounts)',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum number of entries to return',
+        default: 100,
+      },
+    },
+    required: [],
+  },
+};
+
+const getDiagnosticsTool: Tool = {
+  name: 'get_diagnostics',
+  description: 'Show Kite API rate limiting per endpoint class (quote, historical, order, default): limits, requests waiting in the queue, and counts of throttled requests, 429 responses and retries',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
 const getTradesTool: Tool = {
   name: 'get_trades',
   description: 'Get list of all executed trades for the day',
@@ -246,18 +989,80 @@ const getOrderTradesTool: Tool = {
   },
 };
 
+// Tools that span accounts, so they take no account argument
+export const crossAccountToolNames = new Set([
+  'list_accounts',
+  'get_combined_holdings',
+  'get_combined_positions',
+  'confirm_order',
+  'get_audit_log',
+]);
+
+const accountProperty = {
+  type: 'string',
+  description: 'Account to use, as named by list_accounts. Defaults to the default account',
+};
+
+function withAccount(tool: Tool): Tool {
+  if (crossAccountToolNames.has(tool.name)) {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, account: accountProperty } },
+  };
+}
+
 // Export all tools as an array
 export const zerodhaTools = [
+  authStatusTool,
+  getLoginUrlTool,
+  completeLoginTool,
+  listAccountsTool,
   getProfileTool,
   getMarginsTool,
   getInstrumentsTool,
+  searchInstrumentsTool,
+  getQuoteTool,
+  getOHLCTool,
+  getLTPTool,
+  getHistoricalDataTool,
+  getOptionChainTool,
+  subscribeTicksTool,
+  unsubscribeTicksTool,
   getPositionsTool,
+  convertPositionTool,
   getHoldingsTool,
+  getHoldingsAuthorisationTool,
+  authoriseHoldingsTool,
+  getCombinedHoldingsTool,
+  getCombinedPositionsTool,
   getOrdersTool,
   getOrderHistoryTool,
   placeOrderTool,
   modifyOrderTool,
   cancelOrderTool,
+  placeBasketTool,
+  getGTTsTool,
+  getGTTTool,
+  placeGTTTool,
+  modifyGTTTool,
+  deleteGTTTool,
+  confirmOrderTool,
+  getOrderMarginsTool,
+  getBasketMarginsTool,
+  getOrderChargesTool,
+  getRiskStatusTool,
+  getAuditLogTool,
+  getDiagnosticsTool,
   getTradesTool,
   getOrderTradesTool,
-];
+].map(withAccount);
+
+// Tools that change state at the broker; every call to these is audited
+export const writeToolNames = new Set(
+  zerodhaTools.filter((tool) => tool.annotations?.readOnlyHint === false).map((tool) => tool.name)
+);
+
+// Tools that work without a Kite session
+export const authToolNames = new Set([authStatusTool.name, getLoginUrlTool.name, completeLoginTool.name, listAccountsTool.name]);
@@ -4,6 +4,8 @@ export interface ZerodhaConfig {
   accessToken: string;
   baseUrl?: string;
   timeout?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
 }
 
 export interface MarketQuote {
@@ -31,19 +33,65 @@ export interface MarketQuote {
   };
 }
 
+export interface OHLCQuote {
+  instrument_token: number;
+  last_price: number;
+  ohlc: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  };
+}
+
+export interface LTPQuote {
+  instrument_token: number;
+  last_price: number;
+}
+
 export interface OrderBookEntry {
   price: number;
   quantity: number;
   orders: number;
 }
 
+export type TickMode = 'ltp' | 'quote' | 'full';
+
+export interface Tick {
+  mode: TickMode;
+  tradable: boolean;
+  instrument_token: number;
+  last_price: number;
+  last_traded_quantity?: number;
+  average_traded_price?: number;
+  volume_traded?: number;
+  total_buy_quantity?: number;
+  total_sell_quantity?: number;
+  ohlc?: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  };
+  change?: number;
+  last_trade_time?: string;
+  oi?: number;
+  oi_day_high?: number;
+  oi_day_low?: number;
+  exchange_timestamp?: string;
+  depth?: {
+    buy: OrderBookEntry[];
+    sell: OrderBookEntry[];
+  };
+}
+
 export interface Instrument {
   instrument_token: number;
   exchange_token: number;
   tradingsymbol: string;
   name: string;
   last_price: number;
-  expiry?: string;
+  expiry?: Date;
   strike?: number;
   tick_size: number;
   lot_size: number;
@@ -52,6 +100,26 @@ export interface Instrument {
   exchange: string;
 }
 
+export type HistoricalInterval =
+  | 'minute'
+  | '3minute'
+  | '5minute'
+  | '10minute'
+  | '15minute'
+  | '30minute'
+  | '60minute'
+  | 'day';
+
+export interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  oi?: number;
+}
+
 export interface Position {
   tradingsymbol: string;
   exchange: string;
@@ -143,6 +211,22 @@ export interface Order {
   guid: string;
 }
 
+export interface Trade {
+  trade_id: string;
+  order_id: string;
+  exchange_order_id?: string;
+  tradingsymbol: string;
+  exchange: string;
+  instrument_token: number;
+  transaction_type: string;
+  product: string;
+  average_price: number;
+  quantity: number;
+  fill_timestamp: string;
+  order_timestamp: string;
+  exchange_timestamp: string;
+}
+
 export interface MarginRequired {
   equity: {
     enabled: boolean;
@@ -194,8 +278,11 @@ export interface MarginRequired {
   };
 }
 
+export type OrderVariety = 'regular' | 'amo' | 'co' | 'iceberg' | 'auction';
+
 export interface OrderPlacement {
-  variety: string;
+  /** Sent in the URL path, not as a form field */
+  variety: OrderVariety;
   exchange: string;
   tradingsymbol: string;
   transaction_type: 'BUY' | 'SELL';
@@ -203,8 +290,168 @@ export interface OrderPlacement {
   product: 'CNC' | 'MIS' | 'NRML' | 'CO' | 'BO';
   order_type: 'MARKET' | 'LIMIT' | 'SL' | 'SL-M';
   price?: number;
+  /** Trigger of SL and SL-M orders, and the stop-loss of cover orders */
   trigger_price?: number;
   validity?: 'DAY' | 'IOC' | 'TTL';
+  /** Minutes a TTL order stays open */
+  validity_ttl?: number;
   disclosed_quantity?: number;
+  /** Number of legs an iceberg order is split into */
+  iceberg_legs?: number;
+  /** Quantity of each iceberg leg */
+  iceberg_quantity?: number;
+  auction_number?: string;
+  /** Percentage from the LTP a MARKET or SL-M order may fill at; -1 lets Kite choose */
+  market_protection?: number;
   tag?: string;
 }
+
+/**
+ * An order as sent to the margin calculators
+ */
+export type MarginOrder = Pick<OrderPlacement, 'variety' | 'exchange' | 'tradingsymbol' | 'transaction_type' | 'quantity' | 'product' | 'order_type' | 'price' | 'trigger_price'>;
+
+/**
+ * An order as sent to the virtual contract note, priced at its average fill price
+ */
+export interface ChargesOrder extends MarginOrder {
+  order_id: string;
+  average_price: number;
+}
+
+export interface OrderCharges {
+  /** STT for securities, CTT for commodities */
+  transaction_tax: number;
+  transaction_tax_type: string;
+  exchange_turnover_charge: number;
+  sebi_turnover_charge: number;
+  brokerage: number;
+  stamp_duty: number;
+  gst: {
+    igst: number;
+    cgst: number;
+    sgst: number;
+    total: number;
+  };
+  total: number;
+}
+
+export interface OrderMargin {
+  type: string;
+  tradingsymbol: string;
+  exchange: string;
+  span: number;
+  exposure: number;
+  option_premium: number;
+  additional: number;
+  bo: number;
+  cash: number;
+  var: number;
+  pnl: {
+    realised: number;
+    unrealised: number;
+  };
+  leverage: number;
+  charges: OrderCharges;
+  total: number;
+}
+
+export interface BasketMargin {
+  /** Sum of the orders' margins on their own */
+  initial: OrderMargin;
+  /** Margin for the whole basket after spread and hedge benefits */
+  final: OrderMargin;
+  orders: OrderMargin[];
+  charges?: OrderCharges;
+}
+
+export interface ContractNoteEntry extends MarginOrder {
+  charges: OrderCharges;
+}
+
+export type GTTTriggerType = 'single' | 'two-leg';
+
+export interface GTTCondition {
+  exchange: string;
+  tradingsymbol: string;
+  /** One value for single triggers; the lower and upper values for two-leg (OCO) triggers */
+  trigger_values: number[];
+  /** LTP when the trigger was set, which Kite uses to tell the direction of each trigger */
+  last_price: number;
+  instrument_token?: number;
+}
+
+/**
+ * A limit order placed when its trigger fires. Two-leg triggers have one leg
+ * per trigger value, in the same order.
+ */
+export interface GTTOrder {
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: 'BUY' | 'SELL';
+  quantity: number;
+  product: 'CNC' | 'MIS' | 'NRML';
+  order_type: 'LIMIT';
+  price: number;
+}
+
+export interface GTTParams {
+  type: GTTTriggerType;
+  condition: GTTCondition;
+  orders: GTTOrder[];
+}
+
+export interface GTTOrderResult {
+  account_id: string;
+  order_result: {
+    order_id: string;
+    rejection_reason: string;
+    status: string;
+  };
+  timestamp: string;
+  triggered_at: number;
+  quantity: number;
+  price: number;
+  transaction_type: string;
+  tradingsymbol: string;
+  exchange: string;
+  product: string;
+  order_type: string;
+}
+
+export interface GTT {
+  id: number;
+  user_id: string;
+  parent_trigger: number | null;
+  type: GTTTriggerType;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+  status: 'active' | 'triggered' | 'disabled' | 'expired' | 'cancelled' | 'rejected' | 'deleted';
+  condition: GTTCondition;
+  orders: (GTTOrder & { result: GTTOrderResult | null })[];
+  meta: Record<string, unknown> | null;
+}
+
+/**
+ * Moves all or part of an open position to another product, e.g. MIS to CNC
+ */
+export interface PositionConversion {
+  exchange: string;
+  tradingsymbol: string;
+  /** Direction of the position: BUY for a long position, SELL for a short one */
+  transaction_type: 'BUY' | 'SELL';
+  /** day for positions opened today, overnight for positions carried forward */
+  position_type: 'day' | 'overnight';
+  quantity: number;
+  old_product: 'CNC' | 'MIS' | 'NRML';
+  new_product: 'CNC' | 'MIS' | 'NRML';
+}
+
+/**
+ * A holding to authorise for selling through CDSL
+ */
+export interface HoldingAuthorisation {
+  isin: string;
+  quantity: number;
+}
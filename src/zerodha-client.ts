@@ -1,52 +1,207 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Readable } from 'stream';
 import {
   ZerodhaConfig,
   MarketQuote,
+  OHLCQuote,
+  LTPQuote,
+  Candle,
+  HistoricalInterval,
   Instrument,
   Position,
   Holding,
   Order,
+  Trade,
   MarginRequired,
   OrderPlacement,
+  GTT,
+  GTTParams,
+  MarginOrder,
+  ChargesOrder,
+  OrderMargin,
+  BasketMargin,
+  ContractNoteEntry,
+  PositionConversion,
+  HoldingAuthorisation,
 } from './types/zerodha.js';
+import { parseInstrumentCsv } from './instrument-csv.js';
+import { InputException, KiteError, TokenException, fromAxiosError } from './errors.js';
+import { RateLimiter, RequestClassStats, RequestClass, requestClassFor } from './rate-limiter.js';
+import { SessionTokenProvider, TokenProvider } from './token-provider.js';
+import { logger } from './logger.js';
+
+// Maximum instruments Kite accepts in a single quote request
+const QUOTE_BATCH_SIZE = 500;
+const OHLC_BATCH_SIZE = 1000;
+const LTP_BATCH_SIZE = 1000;
+
+// Maximum number of days Kite allows in a single historical data request, per interval
+const HISTORICAL_MAX_DAYS: Record<HistoricalInterval, number> = {
+  'minute': 60,
+  '3minute': 100,
+  '5minute': 100,
+  '10minute': 100,
+  '15minute': 200,
+  '30minute': 200,
+  '60minute': 400,
+  'day': 2000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+const RETRYABLE_NETWORK_ERRORS = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN'];
+
+const log = logger.child('kite');
+
+interface KiteRequestConfig extends InternalAxiosRequestConfig {
+  requestClass?: RequestClass;
+  retryCount?: number;
+  accessToken?: string;
+}
 
 export class ZerodhaClient {
   private client: AxiosInstance;
   private config: ZerodhaConfig;
+  private rateLimiter = new RateLimiter();
+  private tokenProvider: TokenProvider;
 
-  constructor(config: ZerodhaConfig) {
+  /**
+   * `tokenProvider` is consulted before every request, so a new token takes
+   * effect without recreating the client. Defaults to config.accessToken.
+   */
+  constructor(config: ZerodhaConfig, tokenProvider?: TokenProvider) {
     this.config = {
-      baseUrl: 'https://api.kite.trade',
-      timeout: 30000,
       ...config,
+      baseUrl: config.baseUrl || 'https://api.kite.trade',
+      timeout: config.timeout ?? 30000,
+      maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryBaseDelayMs: config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
     };
+    this.tokenProvider = tokenProvider ?? new SessionTokenProvider(config.accessToken);
 
     this.client = axios.create({
       baseURL: this.config.baseUrl,
       timeout: this.config.timeout,
       headers: {
         'X-Kite-Version': '3',
-        'Authorization': `token ${this.config.apiKey}:${this.config.accessToken}`,
         'Content-Type': 'application/x-www-form-urlencoded',
       },
     });
 
-    // Add response interceptor for error handling
+    // Every request, including retries, waits for its endpoint class's rate
+    // limit and then picks up the current access token
+    this.client.interceptors.request.use(async (config: KiteRequestConfig) => {
+      config.requestClass ??= requestClassFor(config.method, config.url);
+      await this.rateLimiter.acquire(config.requestClass);
+
+      const accessToken = this.tokenProvider.getAccessToken();
+      if (!accessToken) {
+        throw new TokenException('The Kite session has expired. Log in again to continue', {
+          method: config.method?.toUpperCase(),
+          path: config.url?.split('?')[0],
+        });
+      }
+      config.accessToken = accessToken;
+      config.headers.set('Authorization', `token ${this.config.apiKey}:${accessToken}`);
+      return config;
+    });
+
+    // Retry idempotent requests, then turn failures into typed Kite errors
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response) {
-          throw new Error(
-            `Zerodha API Error: ${error.response.status} - ${
-              error.response.data?.message || error.response.statusText
-            }`
-          );
+      async (error: AxiosError | KiteError) => {
+        // Raised by the request interceptor; the request was never sent
+        if (error instanceof KiteError) {
+          throw error;
+        }
+
+        const config = error.config as KiteRequestConfig | undefined;
+        if (config?.requestClass && error.response?.status === 429) {
+          this.rateLimiter.recordRateLimited(config.requestClass);
+        }
+
+        const delay = this.retryDelay(error);
+        if (config && delay !== null) {
+          // Streamed error bodies are never read, so release the connection
+          (error.response?.data as Readable | undefined)?.destroy?.();
+          config.retryCount = (config.retryCount ?? 0) + 1;
+          this.rateLimiter.recordRetry(config.requestClass ?? 'default');
+          log.debug(`Retrying ${config.method?.toUpperCase()} ${config.url}`, {
+            attempt: config.retryCount,
+            delay_ms: Math.round(delay),
+            reason: error.response?.status ?? error.code,
+          });
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return this.client.request(config);
+        }
+        const kiteError = fromAxiosError(error, await this.readErrorBody(error));
+        if (kiteError instanceof TokenException && config?.accessToken) {
+          this.tokenProvider.markExpired(config.accessToken);
         }
-        throw error;
+        throw kiteError;
       }
     );
   }
 
+  /**
+   * Delay before retrying a failed request, or null if it must not be retried.
+   * Only GETs are retried: repeating an order request could place it twice.
+   */
+  private retryDelay(error: AxiosError): number | null {
+    const config = error.config as KiteRequestConfig | undefined;
+    const attempt = config?.retryCount ?? 0;
+    if (!config || config.method?.toLowerCase() !== 'get' || attempt >= this.config.maxRetries!) {
+      return null;
+    }
+
+    const status = error.response?.status;
+    const retryable = status === undefined
+      ? RETRYABLE_NETWORK_ERRORS.includes(error.code || '')
+      : status === 429 || status >= 500;
+    if (!retryable) {
+      return null;
+    }
+
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    }
+    // Exponential backoff with jitter so parallel callers do not retry in lockstep
+    const backoff = Math.min(this.config.retryBaseDelayMs! * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Rate limiter queue depth and throttling, retry and 429 counts per endpoint class
+   */
+  getDiagnostics(): { request_classes: Record<RequestClass, RequestClassStats>; max_retries: number; retry_base_delay_ms: number } {
+    return {
+      request_classes: this.rateLimiter.getStats(),
+      max_retries: this.config.maxRetries!,
+      retry_base_delay_ms: this.config.retryBaseDelayMs!,
+    };
+  }
+
+  // Streamed responses carry the JSON error body as a stream
+  private async readErrorBody(error: AxiosError): Promise<unknown> {
+    const data = error.response?.data as Readable | undefined;
+    if (!data || typeof data.pipe !== 'function') {
+      return data;
+    }
+    try {
+      let text = '';
+      for await (const chunk of data) {
+        text += chunk;
+      }
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get user profile information
    */
@@ -79,103 +234,181 @@ export class ZerodhaClient {
       const response = await operation();
       return response.data.data;
     } catch (error) {
-      throw new Error(`Failed to ${operationName}: ${error}`);
+      throw this.withOperation(error, operationName);
+    }
+  }
+
+  private withOperation(error: unknown, operationName: string): Error {
+    if (error instanceof KiteError) {
+      error.operation ??= operationName;
+      return error;
     }
+    return new Error(`Failed to ${operationName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  private async fetchInBatches<T>(
+    instruments: string[],
+    batchSize: number,
+    fetchBatch: (instrumentsParam: string) => Promise<Record<string, T>>
+  ): Promise<Record<string, T>> {
+    const result: Record<string, T> = {};
+    for (let i = 0; i < instruments.length; i += batchSize) {
+      const batch = instruments.slice(i, i + batchSize);
+      Object.assign(result, await fetchBatch(this.buildInstrumentsParam(batch)));
+    }
+    return result;
   }
 
   /**
    * Get market quotes for given instruments
    */
   async getQuotes(instruments: string[]): Promise<Record<string, MarketQuote>> {
-    const instrumentsParam = this.buildInstrumentsParam(instruments);
-    return this.executeWithErrorHandling(
-      () => this.client.get(`/quote?${instrumentsParam}`),
-      'fetch quotes'
+    return this.fetchInBatches(instruments, QUOTE_BATCH_SIZE, (instrumentsParam) =>
+      this.executeWithErrorHandling(
+        () => this.client.get(`/quote?${instrumentsParam}`),
+        'fetch quotes'
+      )
     );
   }
 
   /**
    * Get OHLC data for given instruments
    */
-  async getOHLC(instruments: string[]): Promise<Record<string, any>> {
-    const instrumentsParam = this.buildInstrumentsParam(instruments);
-    return this.executeWithErrorHandling(
-      () => this.client.get(`/quote/ohlc?${instrumentsParam}`),
-      'fetch OHLC'
+  async getOHLC(instruments: string[]): Promise<Record<string, OHLCQuote>> {
+    return this.fetchInBatches(instruments, OHLC_BATCH_SIZE, (instrumentsParam) =>
+      this.executeWithErrorHandling(
+        () => this.client.get(`/quote/ohlc?${instrumentsParam}`),
+        'fetch OHLC'
+      )
     );
   }
 
   /**
    * Get LTP (Last Traded Price) for given instruments
    */
-  async getLTP(instruments: string[]): Promise<Record<string, any>> {
-    const instrumentsParam = this.buildInstrumentsParam(instruments);
-    return this.executeWithErrorHandling(
-      () => this.client.get(`/quote/ltp?${instrumentsParam}`),
-      'fetch LTP'
+  async getLTP(instruments: string[]): Promise<Record<string, LTPQuote>> {
+    return this.fetchInBatches(instruments, LTP_BATCH_SIZE, (instrumentsParam) =>
+      this.executeWithErrorHandling(
+        () => this.client.get(`/quote/ltp?${instrumentsParam}`),
+        'fetch LTP'
+      )
     );
   }
 
+  // Kite dates are IST wall-clock times; they are handled as UTC so no local offset sneaks in
+  private parseKiteDate(value: string): Date {
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (!match) {
+      throw new InputException(`Invalid date "${value}". Use yyyy-mm-dd or yyyy-mm-dd hh:mm:ss`);
+    }
+    const [, year, month, day, hours = '00', minutes = '00', seconds = '00'] = match;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  }
+
+  private formatKiteDate(date: Date): string {
+    return date.toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  private toCandle(raw: any[]): Candle {
+    const [timestamp, open, high, low, close, volume, oi] = raw;
+    return {
+      timestamp,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      ...(oi !== undefined && { oi }),
+    };
+  }
+
+  private async fetchHistoricalChunk(
+    instrumentToken: string,
+    interval: HistoricalInterval,
+    fromDate: string,
+    toDate: string,
+    continuous?: boolean,
+    oi?: boolean
+  ): Promise<Candle[]> {
+    const params = new URLSearchParams({
+      interval,
+      from: fromDate,
+      to: toDate,
+      ...(continuous && { continuous: '1' }),
+      ...(oi && { oi: '1' }),
+    });
+
+    const data = await this.executeWithErrorHandling<{ candles: any[][] }>(
+      () => this.client.get(`/instruments/historical/${instrumentToken}?${params}`),
+      'fetch historical data'
+    );
+    return (data?.candles || []).map((candle) => this.toCandle(candle));
+  }
+
   /**
-   * Get historical data for an instrument
+   * Get historical candles for an instrument. Ranges longer than Kite allows
+   * for the interval are split into chunks and fetched sequentially.
    */
   async getHistoricalData(
     instrumentToken: string,
-    interval: string,
+    interval: HistoricalInterval,
     fromDate: string,
     toDate: string,
     continuous?: boolean,
     oi?: boolean
-  ): Promise<any> {
-    try {
-      const params = new URLSearchParams({
+  ): Promise<Candle[]> {
+    const maxDays = HISTORICAL_MAX_DAYS[interval];
+    if (!maxDays) {
+      throw new InputException(`Unsupported interval "${interval}". Use one of: ${Object.keys(HISTORICAL_MAX_DAYS).join(', ')}`);
+    }
+
+    const from = this.parseKiteDate(fromDate);
+    const to = this.parseKiteDate(toDate);
+    if (from > to) {
+      throw new InputException(`from date ${fromDate} is after to date ${toDate}`);
+    }
+
+    const candlesByTimestamp = new Map<string, Candle>();
+    let chunkStart = from;
+    while (chunkStart <= to) {
+      const chunkEnd = new Date(Math.min(chunkStart.getTime() + maxDays * DAY_MS, to.getTime()));
+      const candles = await this.fetchHistoricalChunk(
+        instrumentToken,
         interval,
-        from: fromDate,
-        to: toDate,
-        ...(continuous && { continuous: '1' }),
-        ...(oi && { oi: '1' }),
-      });
-
-      const response: AxiosResponse = await this.client.get(
-        `/instruments/historical/${instrumentToken}?${params}`
+        this.formatKiteDate(chunkStart),
+        this.formatKiteDate(chunkEnd),
+        continuous,
+        oi
       );
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to fetch historical data: ${error}`);
+      // Adjacent chunks share their boundary, so the same candle can come back twice
+      candles.forEach((candle) => candlesByTimestamp.set(candle.timestamp, candle));
+
+      if (chunkEnd.getTime() >= to.getTime()) {
+        break;
+      }
+      chunkStart = chunkEnd;
     }
-  }
 
-  private parseInstrumentValue(key: string, value: string): any {
-    const numericFields = ['instrument_token', 'exchange_token', 'last_price', 'strike', 'tick_size', 'lot_size'];
-    return numericFields.includes(key) ? parseFloat(value) || 0 : value;
-  }
-
-  private parseCsvToInstruments(csvData: string): Instrument[] {
-    const lines = csvData.trim().split('\n');
-    const headers = lines[0].split(',');
-    
-    return lines.slice(1).map((line: string) => {
-      const values = line.split(',');
-      const instrument: any = {};
-      headers.forEach((header: string, index: number) => {
-        const key = header.trim();
-        const rawValue = values[index]?.trim() || '';
-        instrument[key] = this.parseInstrumentValue(key, rawValue);
-      });
-      return instrument as Instrument;
-    });
+    return [...candlesByTimestamp.values()];
   }
 
   /**
-   * Get all instruments
+   * Get all instruments. The CSV dump is parsed as it streams in; rows that
+   * cannot be parsed are skipped and reported.
    */
   async getInstruments(exchange?: string): Promise<Instrument[]> {
     try {
       const url = exchange ? `/instruments/${exchange}` : '/instruments';
-      const response: AxiosResponse = await this.client.get(url);
-      return this.parseCsvToInstruments(response.data);
+      const response: AxiosResponse = await this.client.get(url, { responseType: 'stream' });
+      const { instruments, malformedRows } = await parseInstrumentCsv(response.data);
+
+      if (malformedRows.length > 0) {
+        const sample = malformedRows.slice(0, 5).map((row) => `line ${row.line}: ${row.reason}`).join('; ');
+        log.warning(`⚠️  Skipped ${malformedRows.length} malformed instrument rows (${sample})`);
+      }
+      return instruments;
     } catch (error) {
-      throw new Error(`Failed to fetch instruments: ${error}`);
+      throw this.withOperation(error, 'fetch instruments');
     }
   }
 
@@ -199,6 +432,47 @@ export class ZerodhaClient {
     );
   }
 
+  /**
+   * Move all or part of an open position to another product
+   */
+  async convertPosition(params: PositionConversion): Promise<boolean> {
+    return this.executeWithErrorHandling(
+      () => this.client.put('/portfolio/positions', new URLSearchParams({
+        exchange: params.exchange,
+        tradingsymbol: params.tradingsymbol,
+        transaction_type: params.transaction_type,
+        position_type: params.position_type,
+        quantity: String(params.quantity),
+        old_product: params.old_product,
+        new_product: params.new_product,
+      })),
+      'convert position'
+    );
+  }
+
+  /**
+   * Start a CDSL authorisation of holdings for selling, or of all holdings
+   * when none are given. The user completes it at holdingsAuthorisationURL.
+   */
+  async authoriseHoldings(holdings: HoldingAuthorisation[] = []): Promise<{ request_id: string }> {
+    const form = new URLSearchParams();
+    for (const holding of holdings) {
+      form.append('isin', holding.isin);
+      form.append('quantity', String(holding.quantity));
+    }
+    return this.executeWithErrorHandling(
+      () => this.client.post('/portfolio/holdings/authorise', form),
+      'authorise holdings'
+    );
+  }
+
+  /**
+   * The Kite page where the user enters their CDSL TPIN for an authorisation request
+   */
+  holdingsAuthorisationURL(requestId: string): string {
+    return `https://kite.zerodha.com/connect/portfolio/authorise/holdings/${this.config.apiKey}/${requestId}`;
+  }
+
   /**
    * Get all orders
    */
@@ -213,31 +487,28 @@ export class ZerodhaClient {
    * Get order history for a specific order
    */
   async getOrderHistory(orderId: string): Promise<Order[]> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/orders/${orderId}`);
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to fetch order history: ${error}`);
-    }
+    return this.executeWithErrorHandling(
+      () => this.client.get(`/orders/${orderId}`),
+      'fetch order history'
+    );
   }
 
   /**
    * Place a new order
    */
   async placeOrder(orderData: OrderPlacement): Promise<{ order_id: string }> {
-    try {
-      const formData = new URLSearchParams();
-      Object.entries(orderData).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          formData.append(key, value.toString());
-        }
-      });
+    const { variety, ...fields } = orderData;
+    const formData = new URLSearchParams();
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        formData.append(key, value.toString());
+      }
+    });
 
-      const response: AxiosResponse = await this.client.post('/orders/regular', formData);
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to place order: ${error}`);
-    }
+    return this.executeWithErrorHandling(
+      () => this.client.post(`/orders/${variety || 'regular'}`, formData),
+      'place order'
+    );
   }
 
   /**
@@ -248,37 +519,122 @@ export class ZerodhaClient {
     orderId: string,
     orderData: Partial<OrderPlacement>
   ): Promise<{ order_id: string }> {
-    try {
-      const formData = new URLSearchParams();
-      Object.entries(orderData).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          formData.append(key, value.toString());
-        }
-      });
+    const formData = new URLSearchParams();
+    Object.entries(orderData).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        formData.append(key, value.toString());
+      }
+    });
 
-      const response: AxiosResponse = await this.client.put(`/orders/${variety}/${orderId}`, formData);
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to modify order: ${error}`);
-    }
+    return this.executeWithErrorHandling(
+      () => this.client.put(`/orders/${variety}/${orderId}`, formData),
+      'modify order'
+    );
   }
 
   /**
    * Cancel an order
    */
   async cancelOrder(variety: string, orderId: string): Promise<{ order_id: string }> {
-    try {
-      const response: AxiosResponse = await this.client.delete(`/orders/${variety}/${orderId}`);
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to cancel order: ${error}`);
-    }
+    return this.executeWithErrorHandling(
+      () => this.client.delete(`/orders/${variety}/${orderId}`),
+      'cancel order'
+    );
+  }
+
+  /**
+   * Margin and charges each order would need on its own
+   */
+  async getOrderMargins(orders: MarginOrder[]): Promise<OrderMargin[]> {
+    return this.executeWithErrorHandling(
+      () => this.client.post('/margins/orders', orders, { headers: { 'Content-Type': 'application/json' } }),
+      'fetch order margins'
+    );
+  }
+
+  /**
+   * Margin for a basket of orders, including spread and hedge benefits.
+   * With `considerPositions` the open positions are part of the hedge.
+   */
+  async getBasketMargins(orders: MarginOrder[], considerPositions = true): Promise<BasketMargin> {
+    return this.executeWithErrorHandling(
+      () => this.client.post(`/margins/basket?consider_positions=${considerPositions}`, orders, { headers: { 'Content-Type': 'application/json' } }),
+      'fetch basket margins'
+    );
+  }
+
+  /**
+   * Brokerage, taxes and fees of orders, as on the contract note
+   */
+  async getVirtualContractNote(orders: ChargesOrder[]): Promise<ContractNoteEntry[]> {
+    return this.executeWithErrorHandling(
+      () => this.client.post('/charges/orders', orders, { headers: { 'Content-Type': 'application/json' } }),
+      'fetch order charges'
+    );
+  }
+
+  private gttFormData(params: GTTParams): URLSearchParams {
+    return new URLSearchParams({
+      type: params.type,
+      condition: JSON.stringify(params.condition),
+      orders: JSON.stringify(params.orders),
+    });
+  }
+
+  /**
+   * Get GTT triggers, including those that fired or expired recently
+   */
+  async getGTTs(): Promise<GTT[]> {
+    return this.executeWithErrorHandling(
+      () => this.client.get('/gtt/triggers'),
+      'fetch GTTs'
+    );
+  }
+
+  /**
+   * Get a GTT trigger
+   */
+  async getGTT(triggerId: number): Promise<GTT> {
+    return this.executeWithErrorHandling(
+      () => this.client.get(`/gtt/triggers/${triggerId}`),
+      'fetch GTT'
+    );
+  }
+
+  /**
+   * Create a GTT trigger
+   */
+  async placeGTT(params: GTTParams): Promise<{ trigger_id: number }> {
+    return this.executeWithErrorHandling(
+      () => this.client.post('/gtt/triggers', this.gttFormData(params)),
+      'place GTT'
+    );
+  }
+
+  /**
+   * Replace the condition and orders of an active GTT trigger
+   */
+  async modifyGTT(triggerId: number, params: GTTParams): Promise<{ trigger_id: number }> {
+    return this.executeWithErrorHandling(
+      () => this.client.put(`/gtt/triggers/${triggerId}`, this.gttFormData(params)),
+      'modify GTT'
+    );
+  }
+
+  /**
+   * Delete a GTT trigger
+   */
+  async deleteGTT(triggerId: number): Promise<{ trigger_id: number }> {
+    return this.executeWithErrorHandling(
+      () => this.client.delete(`/gtt/triggers/${triggerId}`),
+      'delete GTT'
+    );
   }
 
   /**
    * Get trades
    */
-  async getTrades(): Promise<any[]> {
+  async getTrades(): Promise<Trade[]> {
     return this.executeWithErrorHandling(
       () => this.client.get('/trades'),
       'fetch trades'
@@ -288,12 +644,10 @@ export class ZerodhaClient {
   /**
    * Get trades for a specific order
    */
-  async getOrderTrades(orderId: string): Promise<any[]> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/orders/${orderId}/trades`);
-      return response.data.data;
-    } catch (error) {
-      throw new Error(`Failed to fetch order trades: ${error}`);
-    }
+  async getOrderTrades(orderId: string): Promise<Trade[]> {
+    return this.executeWithErrorHandling(
+      () => this.client.get(`/orders/${orderId}/trades`),
+      'fetch order trades'
+    );
   }
 }
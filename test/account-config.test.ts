@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { loadAccountsConfig } from '../src/account-config.js';
+import { API_KEY, API_SECRET } from './support/fixtures.js';
+
+describe('loadAccountsConfig', () => {
+  let dir: string;
+  let count = 0;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-accounts-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function accountsFile(config: unknown): Promise<string> {
+    const file = path.join(dir, `accounts-${++count}.json`);
+    await fs.writeFile(file, JSON.stringify(config));
+    return file;
+  }
+
+  test('falls back to the single account in the environment', async () => {
+    const env = { ZERODHA_API_KEY: API_KEY, ZERODHA_API_SECRET: API_SECRET, RISK_LIMITS_FILE: '/etc/limits.json' };
+    const config = await loadAccountsConfig(undefined, env);
+    assert.equal(config.file, null);
+    assert.equal(config.defaultAccount, 'default');
+    assert.equal(config.accounts.length, 1);
+    assert.equal(config.accounts[0].apiKey, API_KEY);
+    assert.equal(config.accounts[0].riskLimitsFile, '/etc/limits.json');
+    assert.equal(config.accounts[0].tokenFile, '.env');
+  });
+
+  test('expands environment variables and gives each account its own files', async () => {
+    const file = await accountsFile({
+      default: 'prop',
+      accounts: {
+        family: { apiKey: API_KEY, apiSecret: '${FAMILY_SECRET}' },
+        prop: { apiKey: API_KEY, apiSecret: API_SECRET, riskLimits: { maxOrderValue: 50000 } },
+      },
+    });
+    const config = await loadAccountsConfig(file, { FAMILY_SECRET: 'family_secret' });
+
+    assert.equal(config.defaultAccount, 'prop');
+    const [family, prop] = config.accounts;
+    assert.equal(family.apiSecret, 'family_secret');
+    assert.notEqual(family.tokenStoreFile, prop.tokenStoreFile);
+    assert.notEqual(family.paperStateFile, prop.paperStateFile);
+    assert.deepEqual(prop.riskLimits, { maxOrderValue: 50000 });
+  });
+
+  test('rejects invalid configurations at startup', async () => {
+    const invalid: [unknown, RegExp][] = [
+      [{ accounts: {} }, /does not configure any accounts/],
+      [{ accounts: { family: { apiKey: API_KEY } } }, /needs apiKey and apiSecret/],
+      [{ accounts: { 'family office': { apiKey: API_KEY, apiSecret: API_SECRET } } }, /Invalid account name/],
+      [{ accounts: { family: { apiKey: API_KEY, apiSecret: '${MISSING_SECRET}' } } }, /\$\{MISSING_SECRET\}, which is not set/],
+      [{ default: 'prop', accounts: { family: { apiKey: API_KEY, apiSecret: API_SECRET } } }, /default account "prop" is not configured/],
+    ];
+    for (const [config, message] of invalid) {
+      await assert.rejects(loadAccountsConfig(await accountsFile(config), {}), message);
+    }
+    await assert.rejects(loadAccountsConfig(path.join(dir, 'missing.json'), {}), /Failed to load accounts/);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { after, before, describe, test } from 'node:test';
+import { AuditLog } from '../src/audit-log.js';
+
+const run = promisify(execFile);
+
+describe('AuditLog', () => {
+  let dir: string;
+  let count = 0;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-audit-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * A fresh log with three entries, and its lines
+   */
+  async function writeLog(): Promise<{ file: string; lines: string[] }> {
+    const file = path.join(dir, `audit-${++count}.jsonl`);
+    const log = new AuditLog(file);
+    for (const quantity of [1, 2, 3]) {
+      await log.append({
+        tool: 'place_order',
+        client: { name: 'test' },
+        arguments: { exchange: 'NSE', tradingsymbol: 'INFY', quantity },
+        result: { order_id: String(quantity) },
+      });
+    }
+    return { file, lines: (await fs.readFile(file, 'utf-8')).trim().split('\n') };
+  }
+
+  const rewrite = (file: string, lines: string[]) => fs.writeFile(file, lines.map((line) => `${line}\n`).join(''));
+
+  test('chains each entry to the one before it', async () => {
+    const { file, lines } = await writeLog();
+    const entries = lines.map((line) => JSON.parse(line));
+    assert.deepEqual(entries.map((entry) => entry.seq), [1, 2, 3]);
+    assert.equal(entries[0].prev_hash, '0'.repeat(64));
+    assert.equal(entries[1].prev_hash, entries[0].hash);
+    assert.equal(entries[2].prev_hash, entries[1].hash);
+    assert.deepEqual(JSON.parse(await fs.readFile(`${file}.head`, 'utf-8')), { seq: 3, hash: entries[2].hash });
+
+    // A new instance continues the chain from the file
+    const next = await new AuditLog(file).append({ tool: 'cancel_order', client: null, arguments: { order_id: '1' }, error: 'rejected' });
+    assert.deepEqual([next.seq, next.prev_hash], [4, entries[2].hash]);
+  });
+
+  test('queries by tool, symbol and time, newest first', async () => {
+    const { file } = await writeLog();
+    const log = new AuditLog(file);
+    await log.append({
+      tool: 'place_gtt',
+      client: null,
+      arguments: { orders: [{ exchange: 'NSE', tradingsymbol: 'TCS', quantity: 1 }] },
+      result: { trigger_id: 7 },
+    });
+
+    assert.deepEqual((await log.query({ tool: 'place_order' })).map((entry) => entry.seq), [3, 2, 1]);
+    assert.deepEqual((await log.query({ symbol: 'nse:tcs' })).map((entry) => entry.seq), [4]);
+    assert.deepEqual((await log.query({ symbol: 'INFY', limit: 2 })).map((entry) => entry.seq), [3, 2]);
+    assert.equal((await log.query({ from: '2999-01-01' })).length, 0);
+    assert.equal((await log.query({ to: new Date().toISOString().slice(0, 10) })).length, 4);
+  });
+
+  test('accepts an untouched chain', async () => {
+    const { file } = await writeLog();
+    assert.deepEqual(await new AuditLog(file).verify(), { valid: true, entries: 3, errors: [] });
+  });
+
+  test('detects an edited line', async () => {
+    const { file, lines } = await writeLog();
+    lines[1] = lines[1].replace('"quantity":2', '"quantity":200');
+    await rewrite(file, lines);
+
+    const result = await new AuditLog(file).verify();
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [{ line: 2, reason: 'entry content does not match its hash; the line was edited' }]);
+  });
+
+  test('detects a deleted line', async () => {
+    const { file, lines } = await writeLog();
+    await rewrite(file, [lines[0], lines[2]]);
+
+    const result = await new AuditLog(file).verify();
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors.map((error) => error.line), [2, 2]);
+    assert.match(result.errors[0].reason, /expected seq 2 but found 3/);
+    assert.match(result.errors[1].reason, /prev_hash does not match/);
+  });
+
+  test('detects reordered lines', async () => {
+    const { file, lines } = await writeLog();
+    await rewrite(file, [lines[0], lines[2], lines[1]]);
+
+    const result = await new AuditLog(file).verify();
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some((error) => error.line === 2 && /expected seq 2 but found 3/.test(error.reason)));
+    assert.ok(result.errors.some((error) => /head file records seq 3/.test(error.reason)));
+  });
+
+  test('detects trailing lines removed from the log', async () => {
+    const { file, lines } = await writeLog();
+    await rewrite(file, lines.slice(0, 2));
+
+    const result = await new AuditLog(file).verify();
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [{
+      line: 2,
+      reason: 'log ends at seq 2 but the head file records seq 3; trailing entries were removed or altered',
+    }]);
+  });
+
+  test('detects a rewritten or missing head file', async () => {
+    const { file } = await writeLog();
+    await fs.writeFile(`${file}.head`, JSON.stringify({ seq: 3, hash: 'f'.repeat(64) }));
+    const rewritten = await new AuditLog(file).verify();
+    assert.equal(rewritten.valid, false);
+    assert.match(rewritten.errors[0].reason, /trailing entries were removed or altered/);
+
+    await fs.rm(`${file}.head`);
+    const missing = await new AuditLog(file).verify();
+    assert.equal(missing.valid, false);
+    assert.match(missing.errors[0].reason, /head file .* is missing or unreadable/);
+  });
+
+  test('the verify command exits non-zero for a tampered log', async () => {
+    const { file, lines } = await writeLog();
+    const verify = (logFile: string) => run(process.execPath, ['--import', 'tsx', 'src/audit-verify.ts', logFile]);
+
+    const { stdout } = await verify(file);
+    assert.match(stdout, /Audit log is intact \(3 entries\)/);
+
+    lines[0] = lines[0].replace('"quantity":1', '"quantity":100');
+    await rewrite(file, lines);
+    await assert.rejects(verify(file), (error: any) => {
+      assert.equal(error.code, 1);
+      assert.match(error.stderr, /line 1: entry content does not match its hash/);
+      return true;
+    });
+  });
+});
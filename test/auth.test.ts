@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { validateAccessToken } from '../src/auth.js';
+import { ACCESS_TOKEN, API_KEY } from './support/fixtures.js';
+import { MockKiteServer } from './support/mock-kite-server.js';
+
+describe('auth', () => {
+  const kite = new MockKiteServer();
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await kite.start();
+  });
+
+  after(async () => {
+    await kite.stop();
+  });
+
+  test('validateAccessToken accepts a live token', async () => {
+    assert.equal(await validateAccessToken(API_KEY, ACCESS_TOKEN, baseUrl), true);
+  });
+
+  test('validateAccessToken rejects an expired token', async () => {
+    assert.equal(await validateAccessToken(API_KEY, 'expired_token', baseUrl), false);
+  });
+});
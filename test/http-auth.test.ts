@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { HttpTokenAuth, loadHttpTokens, logAllowed, resourceAllowed, toolAllowed } from '../src/http-auth.js';
+
+describe('HTTP bearer tokens', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-http-auth-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('loads MCP_HTTP_TOKEN and the tokens file', async () => {
+    const file = path.join(dir, 'tokens.json');
+    await fs.writeFile(file, JSON.stringify({ tokens: [{ name: 'dashboard', token: 'dashboard-token-0123', tools: ['get_*'] }] }));
+
+    const tokens = await loadHttpTokens(file, { MCP_HTTP_TOKEN: 'operator-token-0123' });
+    assert.deepEqual(tokens, [
+      { name: 'MCP_HTTP_TOKEN', token: 'operator-token-0123', tools: ['*'] },
+      { name: 'dashboard', token: 'dashboard-token-0123', tools: ['get_*'] },
+    ]);
+
+    await fs.writeFile(file, JSON.stringify({ tokens: [{ name: 'weak', token: 'short' }] }));
+    await assert.rejects(loadHttpTokens(file, {}), /weak: token must be a string of at least 16 characters/);
+  });
+
+  test('authenticates bearer headers and matches tool patterns', () => {
+    const dashboard = { name: 'dashboard', token: 'dashboard-token-0123', tools: ['get_*', 'search_instruments'] };
+    const auth = new HttpTokenAuth([dashboard]);
+
+    assert.equal(auth.authenticate('Bearer dashboard-token-0123'), dashboard);
+    assert.equal(auth.authenticate('bearer dashboard-token-0123'), dashboard);
+    assert.equal(auth.authenticate('Bearer dashboard-token-012'), null);
+    assert.equal(auth.authenticate('dashboard-token-0123'), null);
+    assert.equal(auth.authenticate(undefined), null);
+
+    assert.ok(toolAllowed(dashboard, 'get_holdings'));
+    assert.ok(toolAllowed(dashboard, 'search_instruments'));
+    assert.ok(!toolAllowed(dashboard, 'place_order'));
+    assert.ok(!toolAllowed(dashboard, 'search_instruments_v2'));
+  });
+
+  test('limits resources and account log events to the token\'s tools', () => {
+    const dashboard = { name: 'dashboard', token: 'dashboard-token-0123', tools: ['get_holdings', 'get_orders'] };
+    const ticks = { name: 'ticks', token: 'ticks-token-0123456', tools: ['subscribe_ticks', 'auth_status'] };
+
+    assert.ok(resourceAllowed(dashboard, 'kite://orders/updates'));
+    assert.ok(resourceAllowed(dashboard, 'kite://accounts/family/orders/updates'));
+    assert.ok(!resourceAllowed(dashboard, 'kite://ticks/NSE:INFY'));
+    assert.ok(resourceAllowed(ticks, 'kite://accounts/family/ticks/NSE:INFY'));
+    assert.ok(!resourceAllowed(ticks, 'kite://orders/updates'));
+
+    for (const name of ['kitelink:account:family', 'kitelink:auth', 'kitelink:token-store']) {
+      assert.ok(!logAllowed(dashboard, name));
+      assert.ok(logAllowed(ticks, name));
+    }
+    assert.ok(logAllowed(dashboard, 'kitelink:ticker'));
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { CsvRecordParser, parseInstrumentCsv } from '../src/instrument-csv.js';
+
+const HEADER = 'instrument_token,exchange_token,tradingsymbol,name,last_price,expiry,strike,tick_size,lot_size,instrument_type,segment,exchange';
+
+function parseChunks(chunks: string[]) {
+  const parser = new CsvRecordParser();
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.end()];
+}
+
+async function* stream(chunks: (string | Buffer)[]) {
+  yield* chunks;
+}
+
+describe('CsvRecordParser', () => {
+  test('unescapes doubled quotes inside quoted fields', () => {
+    const records = parseChunks(['a,"say ""hi""",""\n', '"""",b\n']);
+    assert.deepEqual(records.map((record) => record.fields), [['a', 'say "hi"', ''], ['"', 'b']]);
+    assert.ok(records.every((record) => !record.error));
+  });
+
+  test('treats CRLF split across chunks as one line break', () => {
+    const records = parseChunks(['a,b\r', '\nc,d\r', '\n']);
+    assert.deepEqual(records, [{ fields: ['a', 'b'], line: 1 }, { fields: ['c', 'd'], line: 2 }]);
+  });
+
+  test('handles quotes split across chunks', () => {
+    // An escaped quote split between chunks, and a closing quote at the end of a chunk
+    const records = parseChunks(['x,"a"', '"b",y\n', '"abc"', ',d\n']);
+    assert.deepEqual(records.map((record) => record.fields), [['x', 'a"b', 'y'], ['abc', 'd']]);
+  });
+
+  test('reports an unterminated quote at the end of the input', () => {
+    const records = parseChunks(['a,b\n', 'c,"open\nstill open']);
+    assert.equal(records.length, 2);
+    assert.deepEqual(records[1], { fields: ['c', 'open\nstill open'], line: 2, error: 'unterminated quoted field' });
+  });
+
+  test('flags stray quotes without losing the following records', () => {
+    const records = parseChunks(['a,b"c\n', '"d"e,f\n', 'g,h\n']);
+    assert.deepEqual(records.map((record) => record.error), [
+      'unexpected quote inside an unquoted field',
+      'unexpected character after closing quote',
+      undefined,
+    ]);
+  });
+});
+
+describe('parseInstrumentCsv', () => {
+  test('skips rows with the wrong number of fields and reports their lines', async () => {
+    const csv = [
+      HEADER,
+      '408065,1594,INFY,"INFOSYS, LTD",0,,0,0.05,1,EQ,NSE,NSE',
+      '2953217,11536,TCS,TCS,0,,0,0.05,1,EQ,NSE',
+      '779521,3045,SBIN,"STATE BANK\nOF INDIA",0,,0,0.05,1,EQ,NSE,NSE,extra',
+      '256265,1001,NIFTY 50,NIFTY 50,0,,0,0,0,EQ,INDICES,NSE',
+    ].join('\r\n') + '\r\n';
+
+    const { instruments, malformedRows } = await parseInstrumentCsv(csv);
+    assert.deepEqual(instruments.map((instrument) => instrument.tradingsymbol), ['INFY', 'NIFTY 50']);
+    assert.equal(instruments[0].name, 'INFOSYS, LTD');
+    assert.deepEqual(malformedRows, [
+      { line: 3, reason: 'expected 12 fields, found 11' },
+      { line: 4, reason: 'expected 12 fields, found 13' },
+    ]);
+  });
+
+  test('decodes multi-byte characters split across buffer chunks', async () => {
+    const bytes = Buffer.from(`${HEADER}\n408065,1594,INFY,INFOSYS – LTD,0,,0,0.05,1,EQ,NSE,NSE\n`);
+    const dash = bytes.indexOf(Buffer.from('–'));
+    const { instruments } = await parseInstrumentCsv(stream([bytes.subarray(0, dash + 1), bytes.subarray(dash + 1)]));
+    assert.equal(instruments[0].name, 'INFOSYS – LTD');
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Logger, type LoggerOptions } from '../src/logger.js';
+import { ACCESS_TOKEN, API_KEY, API_SECRET } from './support/fixtures.js';
+
+describe('Logger', () => {
+  let dir: string;
+  let file: string;
+  let count = 0;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-logger-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function fileLogger(options: LoggerOptions = {}): Logger {
+    file = path.join(dir, `test-${++count}.log`);
+    const logger = new Logger('kitelink');
+    logger.configure({ file, format: 'json', ...options });
+    return logger;
+  }
+
+  async function lines(): Promise<any[]> {
+    return (await fs.readFile(file, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  test('writes JSON lines at or above the configured level', async () => {
+    const logger = fileLogger({ level: 'info' });
+    logger.debug('hidden');
+    logger.child('kite').info('Connected', { user_id: 'AB1234' });
+    logger.error('Failed', { error: new Error('boom') });
+
+    const [connected, failed] = await lines();
+    assert.equal(connected.level, 'info');
+    assert.equal(connected.logger, 'kitelink:kite');
+    assert.equal(connected.message, 'Connected');
+    assert.equal(connected.user_id, 'AB1234');
+    assert.deepEqual(failed.error, { name: 'Error', message: 'boom' });
+    assert.equal((await lines()).length, 2);
+  });
+
+  test('redacts registered secrets, token-shaped values and secret fields', async () => {
+    const logger = fileLogger();
+    logger.addSecret(API_SECRET);
+    logger.info(`Request failed with ${API_SECRET}`, {
+      authorization: `token ${API_KEY}:${ACCESS_TOKEN}`,
+      url: `wss://ws.kite.trade?api_key=${API_KEY}&access_token=${ACCESS_TOKEN}`,
+      env: `ZERODHA_ACCESS_TOKEN=${ACCESS_TOKEN}`,
+      nested: { request_token: 'abc123', instrument_token: 408065 },
+      header: `Authorization: token ${API_KEY}:${ACCESS_TOKEN}`,
+    });
+
+    const [entry] = await lines();
+    const text = JSON.stringify(entry);
+    assert.ok(!text.includes(API_SECRET));
+    assert.ok(!text.includes(ACCESS_TOKEN));
+    assert.equal(entry.authorization, '[REDACTED]');
+    assert.equal(entry.url, `wss://ws.kite.trade?api_key=${API_KEY}&access_token=[REDACTED]`);
+    assert.equal(entry.nested.request_token, '[REDACTED]');
+    assert.equal(entry.nested.instrument_token, 408065);
+    assert.equal(entry.header, `Authorization: token ${API_KEY}:[REDACTED]`);
+  });
+
+  test('rotates the log file by size', async () => {
+    const logger = fileLogger({ maxFileBytes: 200, maxFiles: 2 });
+    for (let index = 0; index < 10; index++) {
+      logger.info(`line ${index}`);
+    }
+
+    const files = (await fs.readdir(dir)).filter((name) => name.startsWith(path.basename(file)));
+    assert.deepEqual(files.sort(), [path.basename(file), `${path.basename(file)}.1`, `${path.basename(file)}.2`]);
+    const [last] = (await lines()).slice(-1);
+    assert.equal(last.message, 'line 9');
+    for (const name of files) {
+      assert.ok((await fs.stat(path.join(dir, name))).size <= 200);
+    }
+  });
+
+  test('forwards events at or above the client level as MCP notifications', () => {
+    const logger = fileLogger();
+    const sent: any[] = [];
+    logger.attach({ sendLoggingMessage: async (params: unknown) => void sent.push(params) } as unknown as Server);
+    logger.addSecret(ACCESS_TOKEN);
+
+    logger.info('Not forwarded by default');
+    logger.notice(`Logged in with ${ACCESS_TOKEN}`);
+    logger.setClientLevel('error');
+    logger.warning('Below the client level');
+    logger.error('Forwarded', { code: 1 });
+
+    assert.deepEqual(sent, [
+      { level: 'notice', logger: 'kitelink', data: { message: 'Logged in with [REDACTED]' } },
+      { level: 'error', logger: 'kitelink', data: { message: 'Forwarded', code: 1 } },
+    ]);
+  });
+
+  test('forwards only the loggers a client\'s filter accepts', () => {
+    const logger = fileLogger();
+    const all: any[] = [];
+    const filtered: any[] = [];
+    logger.attach({ sendLoggingMessage: async (params: unknown) => void all.push(params) } as unknown as Server);
+    logger.attach(
+      { sendLoggingMessage: async (params: unknown) => void filtered.push(params) } as unknown as Server,
+      (name) => !name.endsWith(':auth')
+    );
+
+    logger.child('auth').notice('Open the login URL');
+    logger.child('ticker').notice('Connected');
+
+    assert.deepEqual(all.map((log) => log.logger), ['kitelink:auth', 'kitelink:ticker']);
+    assert.deepEqual(filtered.map((log) => log.logger), ['kitelink:ticker']);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import net from 'node:net';
+import { after, before, describe, test } from 'node:test';
+import { ZerodhaAuth } from '../src/auth.js';
+import { captureRequestToken, parseRedirectUrl } from '../src/oauth-callback.js';
+import { ACCESS_TOKEN, API_KEY, API_SECRET, REQUEST_TOKEN } from './support/fixtures.js';
+import { freePort, getWhenListening } from './support/http.js';
+import { MockKiteServer } from './support/mock-kite-server.js';
+
+describe('captureRequestToken', () => {
+  test('rejects redirect URLs that cannot be served locally', () => {
+    assert.throws(() => parseRedirectUrl('https://example.com/callback'), /must be http:\/\/127\.0\.0\.1/);
+    assert.throws(() => parseRedirectUrl('not a url'), /Invalid redirect URL/);
+    assert.equal(parseRedirectUrl('http://localhost:5000/kite/callback').pathname, '/kite/callback');
+  });
+
+  test('ignores failed and forged redirects until a valid one arrives', async () => {
+    const redirectUrl = `http://127.0.0.1:${await freePort()}/kite/callback`;
+    const exchanged: string[] = [];
+    const captured = captureRequestToken({ redirectUrl, timeoutMs: 5000, state: 'abc' }, async (token) => {
+      exchanged.push(token);
+      return 'session';
+    });
+
+    assert.equal((await getWhenListening(`${redirectUrl}?status=cancelled`)).status, 400);
+    assert.equal((await getWhenListening(`${redirectUrl}?status=success&request_token=forged&state=xyz`)).status, 400);
+    assert.equal((await getWhenListening(redirectUrl.replace('/kite/callback', '/other'))).status, 404);
+
+    const success = await getWhenListening(`${redirectUrl}?action=login&status=success&request_token=tok&state=abc`);
+    assert.equal(success.status, 200);
+    assert.match(success.body, /Logged in to Kite/);
+    assert.equal(await captured, 'session');
+    assert.deepEqual(exchanged, ['tok']);
+    await assert.rejects(fetch(redirectUrl));
+  });
+
+  test('shows the exchange failure and rejects', async () => {
+    const redirectUrl = `http://127.0.0.1:${await freePort()}/`;
+    const captured = captureRequestToken({ redirectUrl, timeoutMs: 5000 }, async () => {
+      throw new Error('Failed to generate access token: Invalid checksum');
+    });
+    const rejected = assert.rejects(captured, /Invalid checksum/);
+
+    const response = await getWhenListening(`${redirectUrl}?status=success&request_token=tok`);
+    assert.equal(response.status, 500);
+    assert.match(response.body, /Invalid checksum/);
+    await rejected;
+  });
+
+  test('times out when no redirect arrives', async () => {
+    const redirectUrl = `http://127.0.0.1:${await freePort()}/callback`;
+    await assert.rejects(
+      captureRequestToken({ redirectUrl, timeoutMs: 50 }, async () => 'unused'),
+      /Timed out after 0s waiting for the Kite login redirect/
+    );
+  });
+
+  test('reports a port that is already in use', async () => {
+    const blocker = net.createServer().listen(0, '127.0.0.1');
+    await once(blocker, 'listening');
+    const { port } = blocker.address() as net.AddressInfo;
+    try {
+      await assert.rejects(
+        captureRequestToken({ redirectUrl: `http://127.0.0.1:${port}/callback`, timeoutMs: 5000 }, async () => 'unused'),
+        /already in use/
+      );
+    } finally {
+      blocker.close();
+    }
+  });
+});
+
+describe('ZerodhaAuth.listenForLogin', () => {
+  const kite = new MockKiteServer();
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await kite.start();
+  });
+
+  after(async () => {
+    await kite.stop();
+  });
+
+  test('exchanges the redirected request_token for an access token', async () => {
+    const redirectUrl = `http://127.0.0.1:${await freePort()}/kite/callback`;
+    const auth = new ZerodhaAuth(API_KEY, API_SECRET, baseUrl);
+    const login = auth.listenForLogin(redirectUrl, 5000);
+
+    const loginUrl = new URL(login.loginUrl);
+    assert.equal(loginUrl.searchParams.get('api_key'), API_KEY);
+    const state = new URLSearchParams(loginUrl.searchParams.get('redirect_params')!).get('state');
+    assert.ok(state);
+
+    const response = await getWhenListening(`${redirectUrl}?action=login&type=login&status=success&request_token=${REQUEST_TOKEN}&state=${state}`);
+    assert.equal(response.status, 200);
+    assert.equal((await login.session).access_token, ACCESS_TOKEN);
+    assert.equal(kite.requestsTo('POST', '/session/token').length, 1);
+  });
+});
@@ -0,0 +1,146 @@
+export const API_KEY = 'mock_api_key';
+export const API_SECRET = 'mock_api_secret';
+export const ACCESS_TOKEN = 'mock_access_token';
+export const REQUEST_TOKEN = 'mock_request_token';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekly options expiring a week from now, so they are never stale
+export const OPTION_EXPIRY = new Date(Date.now() + 7 * DAY_MS).toISOString().slice(0, 10);
+
+export interface FixtureInstrument {
+  instrument_token: number;
+  exchange_token: number;
+  tradingsymbol: string;
+  name: string;
+  last_price: number;
+  expiry: string;
+  strike: number;
+  tick_size: number;
+  lot_size: number;
+  instrument_type: string;
+  segment: string;
+  exchange: string;
+}
+
+function option(token: number, strike: number, type: 'CE' | 'PE'): FixtureInstrument {
+  return {
+    instrument_token: token,
+    exchange_token: token >> 8,
+    tradingsymbol: `NIFTY${OPTION_EXPIRY.slice(2, 4)}${OPTION_EXPIRY.slice(5, 7)}${OPTION_EXPIRY.slice(8, 10)}${strike}${type}`,
+    name: 'NIFTY',
+    last_price: 0,
+    expiry: OPTION_EXPIRY,
+    strike,
+    tick_size: 0.05,
+    lot_size: 50,
+    instrument_type: type,
+    segment: 'NFO-OPT',
+    exchange: 'NFO',
+  };
+}
+
+export const instruments: FixtureInstrument[] = [
+  { instrument_token: 408065, exchange_token: 1594, tradingsymbol: 'INFY', name: 'INFOSYS', last_price: 0, expiry: '', strike: 0, tick_size: 0.05, lot_size: 1, instrument_type: 'EQ', segment: 'NSE', exchange: 'NSE' },
+  { instrument_token: 2953217, exchange_token: 11536, tradingsymbol: 'TCS', name: 'TATA CONSULTANCY SERV LT', last_price: 0, expiry: '', strike: 0, tick_size: 0.05, lot_size: 1, instrument_type: 'EQ', segment: 'NSE', exchange: 'NSE' },
+  { instrument_token: 779521, exchange_token: 3045, tradingsymbol: 'SBIN', name: 'STATE BANK OF INDIA, LTD', last_price: 0, expiry: '', strike: 0, tick_size: 0.05, lot_size: 1, instrument_type: 'EQ', segment: 'NSE', exchange: 'NSE' },
+  { instrument_token: 256265, exchange_token: 1001, tradingsymbol: 'NIFTY 50', name: 'NIFTY 50', last_price: 0, expiry: '', strike: 0, tick_size: 0, lot_size: 0, instrument_type: 'EQ', segment: 'INDICES', exchange: 'NSE' },
+  option(10001026, 21900, 'CE'),
+  option(10001282, 21900, 'PE'),
+  option(10001538, 22000, 'CE'),
+  option(10001794, 22000, 'PE'),
+  option(10002050, 22100, 'CE'),
+  option(10002306, 22100, 'PE'),
+];
+
+// Last traded prices used for every quote endpoint
+export const prices: Record<string, number> = {
+  'NSE:INFY': 1500,
+  'NSE:TCS': 3500,
+  'NSE:SBIN': 600,
+  'NSE:NIFTY 50': 22010,
+  [`NFO:${option(0, 21900, 'CE').tradingsymbol}`]: 180,
+  [`NFO:${option(0, 21900, 'PE').tradingsymbol}`]: 60,
+  [`NFO:${option(0, 22000, 'CE').tradingsymbol}`]: 110,
+  [`NFO:${option(0, 22000, 'PE').tradingsymbol}`]: 100,
+  [`NFO:${option(0, 22100, 'CE').tradingsymbol}`]: 60,
+  [`NFO:${option(0, 22100, 'PE').tradingsymbol}`]: 160,
+};
+
+export const profile = {
+  user_id: 'AB1234',
+  user_name: 'Mock User',
+  user_shortname: 'Mock',
+  email: 'mock@example.com',
+  user_type: 'individual',
+  broker: 'ZERODHA',
+  exchanges: ['NSE', 'BSE', 'NFO'],
+  products: ['CNC', 'MIS', 'NRML'],
+  order_types: ['MARKET', 'LIMIT', 'SL', 'SL-M'],
+};
+
+const utilised = {
+  debits: 0,
+  exposure: 0,
+  m2m_realised: 0,
+  m2m_unrealised: 0,
+  option_premium: 0,
+  payout: 0,
+  span: 0,
+  holding_sales: 0,
+  turnover: 0,
+  liquid_collateral: 0,
+  stock_collateral: 0,
+};
+
+export const margins = {
+  equity: {
+    enabled: true,
+    net: 500000,
+    available: { adhoc_margin: 0, cash: 500000, opening_balance: 500000, live_balance: 500000, collateral: 0, intraday_payin: 0 },
+    utilised,
+  },
+  commodity: {
+    enabled: true,
+    net: 0,
+    available: { adhoc_margin: 0, cash: 0, opening_balance: 0, live_balance: 0 },
+    utilised,
+  },
+};
+
+export const positions = {
+  net: [
+    {
+      tradingsymbol: 'INFY', exchange: 'NSE', instrument_token: 408065, product: 'MIS', quantity: 10,
+      overnight_quantity: 0, multiplier: 1, average_price: 1490, close_price: 1480, last_price: 1500,
+      value: -14900, pnl: 100, m2m: 100, unrealised: 100, realised: 0,
+      buy_quantity: 10, buy_price: 1490, buy_value: 14900, buy_m2m: 14900,
+      sell_quantity: 0, sell_price: 0, sell_value: 0, sell_m2m: 0,
+      day_buy_quantity: 10, day_buy_price: 1490, day_buy_value: 14900,
+      day_sell_quantity: 0, day_sell_price: 0, day_sell_value: 0,
+    },
+  ],
+  day: [],
+};
+
+export const holdings = [
+  {
+    tradingsymbol: 'TCS', exchange: 'NSE', instrument_token: 2953217, isin: 'INE467B01029', product: 'CNC',
+    price: 0, quantity: 5, used_quantity: 0, t1_quantity: 0, realised_quantity: 5, authorised_quantity: 0,
+    authorised_date: '2024-01-01 00:00:00', opening_quantity: 5, collateral_quantity: 0, collateral_type: '',
+    discrepancy: false, average_price: 3200, last_price: 3500, close_price: 3480, pnl: 1500,
+    day_change: 20, day_change_percentage: 0.57,
+  },
+];
+
+export function instrumentsCsv(exchange?: string): string {
+  const headers = ['instrument_token', 'exchange_token', 'tradingsymbol', 'name', 'last_price', 'expiry', 'strike', 'tick_size', 'lot_size', 'instrument_type', 'segment', 'exchange'] as const;
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = instruments
+    .filter((instrument) => !exchange || instrument.exchange === exchange)
+    .map((instrument) => headers.map((header) => escape(instrument[header])).join(','));
+  return [headers.join(','), ...rows].join('\r\n') + '\r\n';
+}
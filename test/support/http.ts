@@ -0,0 +1,31 @@
+import { once } from 'node:events';
+import net from 'node:net';
+
+/**
+ * Find a loopback port nothing is listening on
+ */
+export async function freePort(): Promise<number> {
+  const server = net.createServer().listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as net.AddressInfo;
+  server.close();
+  await once(server, 'close');
+  return port;
+}
+
+/**
+ * GET a URL served by a listener that may still be starting, retrying until it is up
+ */
+export async function getWhenListening(url: string): Promise<{ status: number; body: string }> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(url);
+      return { status: response.status, body: await response.text() };
+    } catch (error) {
+      if (attempt >= 50) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ACCESS_TOKEN, API_KEY, API_SECRET } from './fixtures.js';
+import { MockKiteServer } from './mock-kite-server.js';
+import { MockTickerServer } from './mock-ticker-server.js';
+import { freePort } from './http.js';
+
+const ROOT_DIR = fileURLToPath(new URL('../..', import.meta.url));
+
+export interface TestServerOptions {
+  env?: Record<string, string>;
+  riskLimits?: Record<string, unknown>;
+  /** Entries of the HTTP transport's bearer token file */
+  httpTokens?: Record<string, unknown>[];
+  capabilities?: ConstructorParameters<typeof Client>[1];
+}
+
+export interface TestServer {
+  client: Client;
+  kite: MockKiteServer;
+  ticker: MockTickerServer;
+  dataDir: string;
+  tokenFile: string;
+  /** Errors reading the server's stdout, e.g. lines that are not JSON-RPC */
+  protocolErrors: Error[];
+  stderr(): string;
+  close(): Promise<void>;
+}
+
+interface MockEnvironment {
+  kite: MockKiteServer;
+  ticker: MockTickerServer;
+  dataDir: string;
+  tokenFile: string;
+  env: Record<string, string>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start the mock Kite API and ticker, and build the server environment
+ * pointing at them. Every file the server writes goes to a temporary
+ * directory that stop() removes.
+ */
+async function startMocks(options: TestServerOptions): Promise<MockEnvironment> {
+  const kite = new MockKiteServer();
+  const ticker = new MockTickerServer();
+  const baseUrl = await kite.start();
+  const tickerUrl = await ticker.start();
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-test-'));
+
+  const tokenFile = path.join(dataDir, 'access-token');
+  const riskLimitsFile = path.join(dataDir, 'risk-limits.json');
+  await fs.writeFile(riskLimitsFile, JSON.stringify(options.riskLimits ?? {}));
+  const httpTokensFile = path.join(dataDir, 'http-tokens.json');
+  await fs.writeFile(httpTokensFile, JSON.stringify({ tokens: options.httpTokens ?? [] }));
+
+  return {
+    kite,
+    ticker,
+    dataDir,
+    tokenFile,
+    env: {
+      ...getDefaultEnvironment(),
+      HOME: dataDir,
+      ZERODHA_API_KEY: API_KEY,
+      ZERODHA_API_SECRET: API_SECRET,
+      ZERODHA_ACCESS_TOKEN: ACCESS_TOKEN,
+      ZERODHA_BASE_URL: baseUrl,
+      ZERODHA_TOKEN_FILE: tokenFile,
+      KITE_TICKER_URL: tickerUrl,
+      INSTRUMENT_CACHE_DIR: path.join(dataDir, 'instruments'),
+      AUDIT_LOG_FILE: path.join(dataDir, 'audit.jsonl'),
+      RISK_LIMITS_FILE: riskLimitsFile,
+      MCP_HTTP_TOKENS_FILE: httpTokensFile,
+      PAPER_STATE_FILE: path.join(dataDir, 'paper-state.json'),
+      TICK_NOTIFY_INTERVAL_MS: '0',
+      KITE_RETRY_BASE_DELAY_MS: '10',
+      ...options.env,
+    },
+    async stop() {
+      await Promise.all([kite.stop(), ticker.stop()]);
+      await fs.rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Start the MCP server over stdio against a mock Kite API and ticker
+ */
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const mocks = await startMocks(options);
+  const { kite, ticker, dataDir, tokenFile } = mocks;
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', 'src/index.ts'],
+    cwd: ROOT_DIR,
+    stderr: 'pipe',
+    env: mocks.env,
+  });
+
+  let stderr = '';
+  transport.stderr?.on('data', (chunk) => {
+    stderr += chunk;
+  });
+
+  const client = new Client({ name: 'kitelink-e2e', version: '1.0.0' }, options.capabilities ?? { capabilities: {} });
+  const protocolErrors: Error[] = [];
+  client.onerror = (error) => protocolErrors.push(error);
+  try {
+    await client.connect(transport);
+  } catch (error) {
+    await mocks.stop();
+    throw new Error(`MCP server failed to start: ${error instanceof Error ? error.message : String(error)}\n${stderr}`);
+  }
+
+  return {
+    client,
+    kite,
+    ticker,
+    dataDir,
+    tokenFile,
+    protocolErrors,
+    stderr: () => stderr,
+    async close() {
+      await client.close();
+      await mocks.stop();
+    },
+  };
+}
+
+export interface HttpTestServer {
+  /** The streamable HTTP endpoint */
+  url: string;
+  kite: MockKiteServer;
+  dataDir: string;
+  /** Open an MCP session with a bearer token, over streamable HTTP or the SSE fallback */
+  connect(token: string, transport?: 'streamable' | 'sse'): Promise<Client>;
+  stderr(): string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the MCP server with --http on a free loopback port against a mock
+ * Kite API and ticker
+ */
+export async function startHttpTestServer(options: TestServerOptions = {}): Promise<HttpTestServer> {
+  const mocks = await startMocks(options);
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts', '--http'], {
+    cwd: ROOT_DIR,
+    env: { ...mocks.env, MCP_HTTP_PORT: String(port) },
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+
+  let stderr = '';
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk;
+  });
+  const exited = once(child, 'exit');
+  const listening = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timed out')), 30000);
+    child.stderr.on('data', () => {
+      if (stderr.includes('listening on')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    exited.then(([code]) => {
+      clearTimeout(timer);
+      reject(new Error(`exited with code ${code}`));
+    });
+  });
+
+  try {
+    await listening;
+  } catch (error) {
+    child.kill();
+    await mocks.stop();
+    throw new Error(`MCP server failed to start: ${error instanceof Error ? error.message : String(error)}\n${stderr}`);
+  }
+
+  const url = `http://127.0.0.1:${port}/mcp`;
+  const clients: Client[] = [];
+  return {
+    url,
+    kite: mocks.kite,
+    dataDir: mocks.dataDir,
+    async connect(token, transport = 'streamable') {
+      const requestInit = { headers: { Authorization: `Bearer ${token}` } };
+      const client = new Client({ name: `kitelink-e2e-${transport}`, version: '1.0.0' }, { capabilities: {} });
+      await client.connect(transport === 'sse'
+        ? new SSEClientTransport(new URL(`http://127.0.0.1:${port}/sse`), {
+          requestInit,
+          // The SSE stream is opened with EventSource, which takes headers through fetch
+          eventSourceInit: { fetch: (input, init) => fetch(input, { ...init, headers: { ...init?.headers, ...requestInit.headers } }) },
+        })
+        : new StreamableHTTPClientTransport(new URL(url), { requestInit }));
+      clients.push(client);
+      return client;
+    },
+    stderr: () => stderr,
+    async close() {
+      await Promise.all(clients.map((client) => client.close()));
+      if (child.exitCode === null) {
+        child.kill('SIGTERM');
+        await exited;
+      }
+      await mocks.stop();
+    },
+  };
+}
+
+async function callToolRaw(client: Client, name: string, args: Record<string, unknown>): Promise<{ isError: boolean; body: any }> {
+  const result = await client.callTool({ name, arguments: args }) as CallToolResult;
+  const text = result.content[0]?.type === 'text' ? result.content[0].text : '';
+  return { isError: result.isError === true, body: JSON.parse(text) };
+}
+
+/**
+ * Call a tool and parse the JSON text it returns, failing if the tool reports an error
+ */
+export async function callTool<T = any>(client: Client, name: string, args: Record<string, unknown> = {}): Promise<T> {
+  const { isError, body } = await callToolRaw(client, name, args);
+  if (isError) {
+    throw new Error(`${name} returned an error: ${JSON.stringify(body)}`);
+  }
+  return body as T;
+}
+
+/**
+ * Call a tool that is expected to fail and return its parsed error result
+ */
+export async function callToolError(client: Client, name: string, args: Record<string, unknown> = {}): Promise<any> {
+  const { isError, body } = await callToolRaw(client, name, args);
+  if (!isError) {
+    throw new Error(`${name} succeeded but was expected to fail: ${JSON.stringify(body)}`);
+  }
+  return body;
+}
@@ -0,0 +1,515 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  ACCESS_TOKEN,
+  API_KEY,
+  API_SECRET,
+  REQUEST_TOKEN,
+  holdings,
+  instruments,
+  instrumentsCsv,
+  margins,
+  positions,
+  prices,
+  profile,
+} from './fixtures.js';
+
+export interface ScriptedFailure {
+  status: number;
+  error_type: string;
+  message: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: URLSearchParams;
+  /** Parsed body of JSON requests */
+  json?: unknown;
+  receivedAt: number;
+}
+
+interface PendingFailure extends ScriptedFailure {
+  method: string;
+  path: RegExp;
+  remaining: number;
+}
+
+interface MockResponse {
+  status?: number;
+  json?: unknown;
+  csv?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function success(data: unknown): MockResponse {
+  return { json: { status: 'success', data } };
+}
+
+function failure(status: number, error_type: string, message: string): MockResponse {
+  return { status, json: { status: 'error', error_type, message } };
+}
+
+function kiteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Local stand-in for the Kite Connect v3 REST API. Serves fixture data for
+ * the routes the server uses, keeps an in-memory order book and lets tests
+ * script failures for specific routes.
+ */
+export class MockKiteServer {
+  readonly requests: RecordedRequest[] = [];
+  orders: Record<string, unknown>[] = [];
+  trades: Record<string, unknown>[] = [];
+  gtts: Record<string, unknown>[] = [];
+  netPositions: Record<string, unknown>[] = positions.net;
+  accessToken = ACCESS_TOKEN;
+
+  private server = http.createServer((req, res) => void this.handle(req, res));
+  private failures: PendingFailure[] = [];
+  private nextOrderId = 250000000000001;
+  private nextTriggerId = 100001;
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Fail the next `times` requests whose method and path match
+   */
+  failNext(method: string, path: string | RegExp, failure: ScriptedFailure, times = 1): void {
+    this.failures.push({
+      ...failure,
+      method: method.toUpperCase(),
+      path: typeof path === 'string' ? new RegExp(`^${path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`) : path,
+      remaining: times,
+    });
+  }
+
+  /**
+   * Forget recorded requests, orders, GTTs, position changes and scripted failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.orders = [];
+    this.trades = [];
+    this.gtts = [];
+    this.netPositions = positions.net;
+    this.failures = [];
+    this.accessToken = ACCESS_TOKEN;
+  }
+
+  requestsTo(method: string, path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter((request) =>
+      request.method === method.toUpperCase() &&
+      (typeof path === 'string' ? request.path === path : path.test(request.path))
+    );
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let rawBody = '';
+    for await (const chunk of req) {
+      rawBody += chunk;
+    }
+
+    const request: RecordedRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: new URLSearchParams(rawBody),
+      json: req.headers['content-type']?.startsWith('application/json') ? JSON.parse(rawBody) : undefined,
+      receivedAt: Date.now(),
+    };
+    this.requests.push(request);
+
+    const response = this.takeFailure(request) ?? this.route(request, req.headers.authorization);
+    if (response.csv !== undefined) {
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'text/csv' });
+      res.end(response.csv);
+    } else {
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response.json));
+    }
+  }
+
+  private takeFailure(request: RecordedRequest): MockResponse | undefined {
+    const index = this.failures.findIndex((f) => f.method === request.method && f.path.test(request.path));
+    if (index === -1) {
+      return undefined;
+    }
+    const scripted = this.failures[index];
+    scripted.remaining -= 1;
+    if (scripted.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure(scripted.status, scripted.error_type, scripted.message);
+  }
+
+  private route(request: RecordedRequest, authorization?: string): MockResponse {
+    const { method, path } = request;
+
+    if (method === 'POST' && path === '/session/token') {
+      return this.createSession(request.body);
+    }
+    if (authorization !== `token ${API_KEY}:${this.accessToken}`) {
+      return failure(403, 'TokenException', 'Incorrect `api_key` or `access_token`.');
+    }
+
+    if (method === 'GET') {
+      if (path === '/user/profile') return success(profile);
+      if (path === '/user/margins') return success(margins);
+      if (path === '/portfolio/positions') return success({ ...positions, net: this.netPositions });
+      if (path === '/portfolio/holdings') return success(holdings);
+      if (path === '/orders') return success(this.orders);
+      if (path === '/trades') return success(this.trades);
+      if (path === '/gtt/triggers') return success(this.gtts);
+      if (path === '/quote') return success(this.quotes(request.query, 'full'));
+      if (path === '/quote/ohlc') return success(this.quotes(request.query, 'ohlc'));
+      if (path === '/quote/ltp') return success(this.quotes(request.query, 'ltp'));
+      if (path === '/instruments') return { csv: instrumentsCsv() };
+
+      let match = path.match(/^\/instruments\/historical\/(\d+)$/);
+      if (match) return this.historical(Number(match[1]), request.query);
+      match = path.match(/^\/instruments\/([A-Z]+)$/);
+      if (match) return { csv: instrumentsCsv(match[1]) };
+      match = path.match(/^\/orders\/([^/]+)\/trades$/);
+      if (match) return success(this.trades.filter((trade) => trade.order_id === match![1]));
+      match = path.match(/^\/orders\/([^/]+)$/);
+      if (match) {
+        const order = this.orders.find((o) => o.order_id === match![1]);
+        return order ? success([order]) : failure(400, 'GeneralException', "Couldn't find that `order_id`.");
+      }
+    }
+
+    const orderMatch = path.match(/^\/orders\/([a-z]+)(?:\/([^/]+))?$/);
+    if (orderMatch) {
+      const [, variety, orderId] = orderMatch;
+      if (method === 'POST' && !orderId) return this.placeOrder(variety, request.body);
+      if (method === 'PUT' && orderId) return this.modifyOrder(orderId, request.body);
+      if (method === 'DELETE' && orderId) return this.cancelOrder(orderId);
+    }
+
+    if (method === 'POST' && path === '/margins/orders') {
+      return success((request.json as Record<string, any>[]).map((order) => this.orderMargin(order)));
+    }
+    if (method === 'POST' && path === '/margins/basket') {
+      return this.basketMargin(request.json as Record<string, any>[]);
+    }
+    if (method === 'POST' && path === '/charges/orders') {
+      return success((request.json as Record<string, any>[]).map((order) => ({
+        transaction_type: order.transaction_type,
+        tradingsymbol: order.tradingsymbol,
+        exchange: order.exchange,
+        variety: order.variety,
+        product: order.product,
+        order_type: order.order_type,
+        quantity: order.quantity,
+        price: order.average_price,
+        charges: this.orderCharges(order, order.average_price),
+      })));
+    }
+
+    if (method === 'PUT' && path === '/portfolio/positions') {
+      return success(true);
+    }
+    if (method === 'POST' && path === '/portfolio/holdings/authorise') {
+      return success({ request_id: 'auth-request-1' });
+    }
+
+    const gttMatch = path.match(/^\/gtt\/triggers(?:\/(\d+))?$/);
+    if (gttMatch) {
+      const triggerId = gttMatch[1] ? Number(gttMatch[1]) : undefined;
+      if (method === 'POST' && triggerId === undefined) return this.saveGTT(request.body);
+      if (triggerId !== undefined) {
+        const gtt = this.gtts.find((g) => g.id === triggerId);
+        if (!gtt) return failure(400, 'InputException', 'Invalid trigger ID.');
+        if (method === 'GET') return success(gtt);
+        if (method === 'PUT') return this.saveGTT(request.body, gtt);
+        if (method === 'DELETE') {
+          gtt.status = 'deleted';
+          return success({ trigger_id: triggerId });
+        }
+      }
+    }
+
+    return failure(404, 'GeneralException', `Route not found: ${method} ${path}`);
+  }
+
+  /**
+   * Flat rates that are easy to check: delivery is fully paid for, other
+   * products need 20% of the order value
+   */
+  private orderMargin(order: Record<string, any>): Record<string, unknown> {
+    const price = order.price || prices[`${order.exchange}:${order.tradingsymbol}`] || 0;
+    const value = price * order.quantity;
+    const delivery = order.product === 'CNC';
+    const isOption = /(CE|PE)$/.test(order.tradingsymbol);
+    const premium = isOption && order.transaction_type === 'BUY' ? value : 0;
+    const span = !delivery && !premium ? value * 0.15 : 0;
+    const exposure = !delivery && !premium ? value * 0.05 : 0;
+    const cash = delivery ? value : 0;
+    return {
+      type: 'equity',
+      tradingsymbol: order.tradingsymbol,
+      exchange: order.exchange,
+      span,
+      exposure,
+      option_premium: premium,
+      additional: 0,
+      bo: 0,
+      cash,
+      var: cash,
+      pnl: { realised: 0, unrealised: 0 },
+      leverage: delivery ? 1 : 5,
+      charges: this.orderCharges(order, price),
+      total: span + exposure + premium + cash,
+    };
+  }
+
+  private orderCharges(order: Record<string, any>, price: number): Record<string, unknown> {
+    const value = price * order.quantity;
+    const brokerage = order.product === 'CNC' ? 0 : Math.min(20, value * 0.0003);
+    const transactionTax = order.product === 'CNC' || order.transaction_type === 'SELL' ? value * 0.001 : 0;
+    const exchange = value * 0.0000297;
+    const sebi = value * 0.000001;
+    const stamp = order.transaction_type === 'BUY' ? value * 0.00015 : 0;
+    const gst = (brokerage + exchange + sebi) * 0.18;
+    return {
+      transaction_tax: transactionTax,
+      transaction_tax_type: order.exchange === 'MCX' ? 'ctt' : 'stt',
+      exchange_turnover_charge: exchange,
+      sebi_turnover_charge: sebi,
+      brokerage,
+      stamp_duty: stamp,
+      gst: { igst: gst, cgst: 0, sgst: 0, total: gst },
+      total: brokerage + transactionTax + exchange + sebi + stamp + gst,
+    };
+  }
+
+  /**
+   * Baskets with both buy and sell legs get a 40% hedge benefit on SPAN and exposure
+   */
+  private basketMargin(orders: Record<string, any>[]): MockResponse {
+    const margins = orders.map((order) => this.orderMargin(order)) as Record<string, any>[];
+    const sum = (field: string) => margins.reduce((total, margin) => total + margin[field], 0);
+    const hedged = new Set(orders.map((order) => order.transaction_type)).size > 1;
+    const initial = { ...margins[0], tradingsymbol: '', span: sum('span'), exposure: sum('exposure'), option_premium: sum('option_premium'), cash: sum('cash'), total: sum('total') };
+    const benefit = hedged ? (initial.span + initial.exposure) * 0.4 : 0;
+    const final = { ...initial, span: initial.span * (hedged ? 0.6 : 1), exposure: initial.exposure * (hedged ? 0.6 : 1), total: initial.total - benefit };
+    return success({ initial, final, orders: margins });
+  }
+
+  private saveGTT(body: URLSearchParams, existing?: Record<string, unknown>): MockResponse {
+    let condition: Record<string, unknown>;
+    let orders: Record<string, unknown>[];
+    try {
+      condition = JSON.parse(body.get('condition') || '');
+      orders = JSON.parse(body.get('orders') || '');
+    } catch {
+      return failure(400, 'InputException', 'Invalid `condition` or `orders`.');
+    }
+    if (existing && existing.status !== 'active') {
+      return failure(400, 'InputException', `Trigger cannot be modified as it is ${existing.status}.`);
+    }
+
+    const timestamp = kiteTimestamp(new Date());
+    const gtt = existing ?? { id: this.nextTriggerId++, user_id: profile.user_id, parent_trigger: null, created_at: timestamp, status: 'active', meta: null };
+    Object.assign(gtt, {
+      type: body.get('type'),
+      updated_at: timestamp,
+      expires_at: kiteTimestamp(new Date(Date.now() + 365 * DAY_MS)),
+      condition: {
+        ...condition,
+        instrument_token: instruments.find((i) => i.tradingsymbol === condition.tradingsymbol)?.instrument_token ?? 0,
+      },
+      orders: orders.map((order) => ({ ...order, result: null })),
+    });
+    if (!existing) {
+      this.gtts.push(gtt);
+    }
+    return success({ trigger_id: gtt.id });
+  }
+
+  private createSession(body: URLSearchParams): MockResponse {
+    const checksum = crypto.createHash('sha256').update(API_KEY + REQUEST_TOKEN + API_SECRET).digest('hex');
+    if (body.get('api_key') !== API_KEY || body.get('request_token') !== REQUEST_TOKEN || body.get('checksum') !== checksum) {
+      return failure(403, 'TokenException', 'Token is invalid or has expired.');
+    }
+    return success({ ...profile, access_token: this.accessToken, public_token: 'mock_public_token', login_time: kiteTimestamp(new Date()) });
+  }
+
+  private quotes(query: URLSearchParams, mode: 'full' | 'ohlc' | 'ltp'): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of query.getAll('i')) {
+      const [exchange, tradingsymbol] = key.split(':');
+      const instrument = instruments.find((i) => i.exchange === exchange && i.tradingsymbol === tradingsymbol);
+      const lastPrice = prices[key];
+      if (!instrument || lastPrice === undefined) {
+        continue;
+      }
+
+      const ohlc = { open: lastPrice * 0.99, high: lastPrice * 1.01, low: lastPrice * 0.98, close: lastPrice * 0.995 };
+      if (mode === 'ltp') {
+        result[key] = { instrument_token: instrument.instrument_token, last_price: lastPrice };
+      } else if (mode === 'ohlc') {
+        result[key] = { instrument_token: instrument.instrument_token, last_price: lastPrice, ohlc };
+      } else {
+        const tick = instrument.tick_size || 0.05;
+        result[key] = {
+          instrument_token: instrument.instrument_token,
+          timestamp: kiteTimestamp(new Date()),
+          last_trade_time: kiteTimestamp(new Date()),
+          last_price: lastPrice,
+          last_quantity: 10,
+          buy_quantity: 5000,
+          sell_quantity: 4000,
+          volume: 250000,
+          average_price: lastPrice,
+          oi: instrument.segment === 'NFO-OPT' ? 1000000 : 0,
+          oi_day_high: 0,
+          oi_day_low: 0,
+          net_change: lastPrice - ohlc.close,
+          lower_circuit_limit: lastPrice * 0.8,
+          upper_circuit_limit: lastPrice * 1.2,
+          ohlc,
+          depth: {
+            buy: [{ price: lastPrice - tick, quantity: 100, orders: 3 }],
+            sell: [{ price: lastPrice + tick, quantity: 120, orders: 4 }],
+          },
+        };
+      }
+    }
+    return result;
+  }
+
+  private historical(token: number, query: URLSearchParams): MockResponse {
+    const from = new Date(`${query.get('from')?.slice(0, 10)}T00:00:00Z`);
+    const to = new Date(`${query.get('to')?.slice(0, 10)}T00:00:00Z`);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return failure(400, 'InputException', 'invalid from or to date');
+    }
+
+    const candles: unknown[][] = [];
+    for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      const base = 1000 + (token % 100) + candles.length;
+      const candle: unknown[] = [`${date}T09:15:00+0530`, base, base + 10, base - 10, base + 5, 1000];
+      if (query.get('oi') === '1') {
+        candle.push(500);
+      }
+      candles.push(candle);
+    }
+    return success({ candles });
+  }
+
+  private placeOrder(variety: string, body: URLSearchParams): MockResponse {
+    const tradingsymbol = body.get('tradingsymbol');
+    const exchange = body.get('exchange');
+    if (!tradingsymbol || !exchange || !body.get('quantity')) {
+      return failure(400, 'InputException', 'Missing tradingsymbol, exchange or quantity');
+    }
+
+    const orderId = String(this.nextOrderId++);
+    const quantity = Number(body.get('quantity'));
+    const orderType = body.get('order_type') || 'MARKET';
+    const lastPrice = prices[`${exchange}:${tradingsymbol}`] ?? 0;
+    const filled = orderType === 'MARKET';
+    const timestamp = kiteTimestamp(new Date());
+
+    this.orders.push({
+      order_id: orderId,
+      exchange_order_id: `1100000${orderId.slice(-8)}`,
+      parent_order_id: null,
+      status: filled ? 'COMPLETE' : orderType.startsWith('SL') ? 'TRIGGER PENDING' : 'OPEN',
+      status_message: null,
+      order_timestamp: timestamp,
+      exchange_timestamp: timestamp,
+      variety,
+      exchange,
+      tradingsymbol,
+      instrument_token: instruments.find((i) => i.tradingsymbol === tradingsymbol)?.instrument_token ?? 0,
+      order_type: orderType,
+      transaction_type: body.get('transaction_type'),
+      validity: body.get('validity') || 'DAY',
+      product: body.get('product'),
+      quantity,
+      disclosed_quantity: Number(body.get('disclosed_quantity') || 0),
+      price: Number(body.get('price') || 0),
+      trigger_price: Number(body.get('trigger_price') || 0),
+      average_price: filled ? lastPrice : 0,
+      filled_quantity: filled ? quantity : 0,
+      pending_quantity: filled ? 0 : quantity,
+      cancelled_quantity: 0,
+      tag: body.get('tag'),
+    });
+
+    if (filled) {
+      this.trades.push({
+        trade_id: `${orderId.slice(-8)}01`,
+        order_id: orderId,
+        exchange_order_id: `1100000${orderId.slice(-8)}`,
+        tradingsymbol,
+        exchange,
+        instrument_token: instruments.find((i) => i.tradingsymbol === tradingsymbol)?.instrument_token ?? 0,
+        transaction_type: body.get('transaction_type'),
+        product: body.get('product'),
+        average_price: lastPrice,
+        quantity,
+        fill_timestamp: timestamp,
+        exchange_timestamp: timestamp,
+        order_timestamp: timestamp,
+      });
+    }
+    return success({ order_id: orderId });
+  }
+
+  private modifyOrder(orderId: string, body: URLSearchParams): MockResponse {
+    const order = this.orders.find((o) => o.order_id === orderId);
+    if (!order) {
+      return failure(400, 'GeneralException', "Couldn't find that `order_id`.");
+    }
+    if (order.status !== 'OPEN' && order.status !== 'TRIGGER PENDING') {
+      return failure(400, 'InputException', `Order cannot be modified as it is ${order.status}.`);
+    }
+
+    for (const field of ['quantity', 'price', 'trigger_price', 'disclosed_quantity']) {
+      if (body.has(field)) {
+        order[field] = Number(body.get(field));
+      }
+    }
+    for (const field of ['order_type', 'validity']) {
+      if (body.has(field)) {
+        order[field] = body.get(field);
+      }
+    }
+    order.pending_quantity = Number(order.quantity) - Number(order.filled_quantity);
+    return success({ order_id: orderId });
+  }
+
+  private cancelOrder(orderId: string): MockResponse {
+    const order = this.orders.find((o) => o.order_id === orderId);
+    if (!order) {
+      return failure(400, 'GeneralException', "Couldn't find that `order_id`.");
+    }
+    if (order.status !== 'OPEN' && order.status !== 'TRIGGER PENDING') {
+      return failure(400, 'InputException', `Order cannot be cancelled as it is ${order.status}.`);
+    }
+
+    order.status = 'CANCELLED';
+    order.cancelled_quantity = order.pending_quantity;
+    order.pending_quantity = 0;
+    return success({ order_id: orderId });
+  }
+}
@@ -0,0 +1,135 @@
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+
+/**
+ * Build a binary ticker message from raw packets, framed the way Kite sends
+ * them: packet count, then each packet prefixed with its length.
+ */
+export function frame(packets: Buffer[]): Buffer {
+  const header = Buffer.alloc(2);
+  header.writeUInt16BE(packets.length);
+  return Buffer.concat([
+    header,
+    ...packets.flatMap((packet) => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(packet.length);
+      return [length, packet];
+    }),
+  ]);
+}
+
+export function ltpPacket(instrumentToken: number, lastPrice: number): Buffer {
+  const packet = Buffer.alloc(8);
+  packet.writeUInt32BE(instrumentToken, 0);
+  packet.writeInt32BE(Math.round(lastPrice * 100), 4);
+  return packet;
+}
+
+export function quotePacket(instrumentToken: number, lastPrice: number, volume = 1000): Buffer {
+  const packet = Buffer.alloc(44);
+  const paise = (value: number) => Math.round(value * 100);
+  packet.writeUInt32BE(instrumentToken, 0);
+  packet.writeInt32BE(paise(lastPrice), 4);
+  packet.writeUInt32BE(10, 8);
+  packet.writeInt32BE(paise(lastPrice), 12);
+  packet.writeUInt32BE(volume, 16);
+  packet.writeUInt32BE(500, 20);
+  packet.writeUInt32BE(400, 24);
+  packet.writeInt32BE(paise(lastPrice * 0.99), 28);
+  packet.writeInt32BE(paise(lastPrice * 1.01), 32);
+  packet.writeInt32BE(paise(lastPrice * 0.98), 36);
+  packet.writeInt32BE(paise(lastPrice * 0.995), 40);
+  return packet;
+}
+
+/**
+ * A full mode packet: the quote fields, OI, timestamps and five levels of
+ * depth each side, bids stepping down and offers stepping up by a tick
+ */
+export function fullPacket(instrumentToken: number, lastPrice: number, oi: number, timestamp: Date): Buffer {
+  const packet = Buffer.alloc(184);
+  quotePacket(instrumentToken, lastPrice).copy(packet);
+  const seconds = Math.floor(timestamp.getTime() / 1000);
+  packet.writeUInt32BE(seconds, 44);
+  packet.writeUInt32BE(oi, 48);
+  packet.writeUInt32BE(oi + 100, 52);
+  packet.writeUInt32BE(oi - 100, 56);
+  packet.writeUInt32BE(seconds, 60);
+  for (let level = 0; level < 10; level++) {
+    const offset = 64 + level * 12;
+    const step = (level % 5) + 1;
+    packet.writeUInt32BE(100 * step, offset);
+    packet.writeInt32BE(Math.round(lastPrice * 100) + (level < 5 ? -5 : 5) * step, offset + 4);
+    packet.writeUInt16BE(step, offset + 8);
+  }
+  return packet;
+}
+
+/**
+ * Local stand-in for Kite's streaming endpoint. Records the control messages
+ * clients send and replays recorded frames to every connected client.
+ */
+export class MockTickerServer {
+  readonly messages: unknown[] = [];
+  readonly connectionUrls: URL[] = [];
+
+  private server: WebSocketServer | null = null;
+
+  async start(): Promise<string> {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.server = server;
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+
+    server.on('connection', (socket, request) => {
+      this.connectionUrls.push(new URL(request.url || '/', 'ws://localhost'));
+      socket.on('message', (data) => this.messages.push(JSON.parse(data.toString())));
+    });
+    return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    this.server.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get clientCount(): number {
+    return this.server?.clients.size ?? 0;
+  }
+
+  /**
+   * Send recorded frames to every client, in order
+   */
+  replay(frames: (Buffer | string)[]): void {
+    for (const client of this.server?.clients ?? []) {
+      if (client.readyState === WebSocket.OPEN) {
+        frames.forEach((data) => client.send(data, { binary: Buffer.isBuffer(data) }));
+      }
+    }
+  }
+
+  /**
+   * Drop every client connection without a close handshake
+   */
+  disconnectAll(): void {
+    this.server?.clients.forEach((client) => client.terminate());
+  }
+
+  /**
+   * Resolve once a client has sent a message matching the predicate
+   */
+  async waitForMessage(predicate: (message: any) => boolean, timeoutMs = 5000): Promise<unknown> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const found = this.messages.find(predicate);
+      if (found) {
+        return found;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error('Timed out waiting for a ticker message');
+  }
+}
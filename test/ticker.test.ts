@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { after, afterEach, before, describe, test } from 'node:test';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { KiteTicker } from '../src/ticker.js';
+import type { Tick } from '../src/types/zerodha.js';
+import { ACCESS_TOKEN, API_KEY } from './support/fixtures.js';
+import { callTool, startTestServer, type TestServer } from './support/mcp-harness.js';
+import { MockTickerServer, frame, fullPacket, ltpPacket, quotePacket } from './support/mock-ticker-server.js';
+
+describe('KiteTicker', () => {
+  let server: MockTickerServer;
+  let ticker: KiteTicker | null = null;
+
+  before(async () => {
+    server = new MockTickerServer();
+  });
+
+  afterEach(async () => {
+    ticker?.close();
+    ticker = null;
+    await server.stop();
+    server.messages.length = 0;
+  });
+
+  async function connect(): Promise<KiteTicker> {
+    const url = await server.start();
+    ticker = new KiteTicker({ apiKey: API_KEY, accessToken: ACCESS_TOKEN, url });
+    ticker.on('error', () => undefined);
+    ticker.connect();
+    await once(ticker, 'connect');
+    return ticker;
+  }
+
+  test('authenticates with the api key and access token', async () => {
+    await connect();
+    const [url] = server.connectionUrls.slice(-1);
+    assert.equal(url.searchParams.get('api_key'), API_KEY);
+    assert.equal(url.searchParams.get('access_token'), ACCESS_TOKEN);
+  });
+
+  test('decodes replayed ltp and quote packets', async () => {
+    const client = await connect();
+    client.subscribe([408065, 256265], 'quote');
+    await server.waitForMessage((m) => m.a === 'mode');
+
+    const received = once(client, 'ticks');
+    server.replay([Buffer.from([0]), frame([ltpPacket(256265, 22010.5), quotePacket(408065, 1500.25, 12345)])]);
+    const [ticks] = (await received) as [Tick[]];
+
+    assert.equal(ticks.length, 2);
+    assert.deepEqual(ticks[0], { mode: 'ltp', tradable: false, instrument_token: 256265, last_price: 22010.5 });
+    assert.equal(ticks[1].mode, 'quote');
+    assert.equal(ticks[1].last_price, 1500.25);
+    assert.equal(ticks[1].volume_traded, 12345);
+  });
+
+  test('decodes replayed full packets with OI, timestamps and depth', async () => {
+    const client = await connect();
+    client.subscribe([408065], 'full');
+    await server.waitForMessage((m) => m.a === 'mode');
+
+    const timestamp = new Date('2026-10-19T09:45:30Z');
+    const received = once(client, 'ticks');
+    server.replay([frame([fullPacket(408065, 1500, 25000, timestamp)])]);
+    const [[tick]] = (await received) as [Tick[]];
+
+    assert.equal(tick.mode, 'full');
+    assert.equal(tick.last_price, 1500);
+    assert.deepEqual([tick.oi, tick.oi_day_high, tick.oi_day_low], [25000, 25100, 24900]);
+    assert.equal(tick.last_trade_time, timestamp.toISOString());
+    assert.equal(tick.exchange_timestamp, timestamp.toISOString());
+    assert.deepEqual(tick.depth?.buy.map((level) => [level.price, level.quantity, level.orders]), [
+      [1499.95, 100, 1], [1499.9, 200, 2], [1499.85, 300, 3], [1499.8, 400, 4], [1499.75, 500, 5],
+    ]);
+    assert.deepEqual(tick.depth?.sell.map((level) => [level.price, level.quantity, level.orders]), [
+      [1500.05, 100, 1], [1500.1, 200, 2], [1500.15, 300, 3], [1500.2, 400, 4], [1500.25, 500, 5],
+    ]);
+  });
+
+  test('emits order updates from text messages', async () => {
+    const client = await connect();
+    const received = once(client, 'order_update');
+    server.replay([JSON.stringify({ type: 'order', data: { order_id: '1', status: 'COMPLETE' } })]);
+    const [order] = await received;
+    assert.deepEqual(order, { order_id: '1', status: 'COMPLETE' });
+  });
+
+  test('reconnects with a new access token', async () => {
+    const client = await connect();
+    const reconnected = once(client, 'connect');
+    client.setAccessToken('fresh_access_token');
+    await reconnected;
+    assert.equal(server.connectionUrls[server.connectionUrls.length - 1].searchParams.get('access_token'), 'fresh_access_token');
+  });
+
+  test('resubscribes after the connection drops', async () => {
+    const client = await connect();
+    client.subscribe([408065], 'full');
+    await server.waitForMessage((m) => m.a === 'mode');
+    server.messages.length = 0;
+
+    const reconnected = once(client, 'connect');
+    server.disconnectAll();
+    await reconnected;
+
+    await server.waitForMessage((m) => m.a === 'subscribe' && m.v.includes(408065));
+    assert.ok(await server.waitForMessage((m) => m.a === 'mode' && m.v[0] === 'full'));
+  });
+});
+
+describe('tick resources', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  test('subscribe_ticks exposes the latest tick as a resource and notifies subscribers', async () => {
+    const { subscribed } = await callTool(server.client, 'subscribe_ticks', { instruments: ['NSE:INFY'] });
+    assert.deepEqual(subscribed, [{ instrument: 'NSE:INFY', instrument_token: 408065, mode: 'quote', uri: 'kite://ticks/NSE:INFY' }]);
+
+    const { resources } = await server.client.listResources();
+    assert.ok(resources.some((resource) => resource.uri === 'kite://ticks/NSE:INFY'));
+
+    const updated = new Promise<string>((resolve) => {
+      server.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => resolve(notification.params.uri));
+    });
+    await server.client.subscribeResource({ uri: 'kite://ticks/NSE:INFY' });
+    await server.ticker.waitForMessage((m) => m.a === 'mode' && m.v[1].includes(408065));
+
+    server.ticker.replay([frame([quotePacket(408065, 1510)])]);
+    assert.equal(await updated, 'kite://ticks/NSE:INFY');
+
+    const { contents } = await server.client.readResource({ uri: 'kite://ticks/NSE:INFY' });
+    const body = JSON.parse(String(contents[0].text));
+    assert.equal(body.connected, true);
+    assert.equal(body.tick.last_price, 1510);
+
+    const { unsubscribed } = await callTool(server.client, 'unsubscribe_ticks', { instruments: 'NSE:INFY' });
+    assert.equal(unsubscribed.length, 1);
+    await assert.rejects(server.client.readResource({ uri: 'kite://ticks/NSE:INFY' }), /not subscribed/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { TokenStore, parseKiteTime, sessionExpiry } from '../src/token-store.js';
+import { ACCESS_TOKEN, API_SECRET } from './support/fixtures.js';
+
+describe('TokenStore', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kitelink-token-store-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('expires sessions at the next 06:00 IST', () => {
+    assert.equal(sessionExpiry(parseKiteTime('2024-01-25 09:15:00')!).toISOString(), '2024-01-26T00:30:00.000Z');
+    assert.equal(sessionExpiry(parseKiteTime('2024-01-25 05:59:00')!).toISOString(), '2024-01-25T00:30:00.000Z');
+    assert.equal(sessionExpiry(parseKiteTime('2024-01-25 23:30:00')!).toISOString(), '2024-01-26T00:30:00.000Z');
+  });
+
+  test('saves the session encrypted in a private file and loads it back', async () => {
+    const store = new TokenStore(API_SECRET, path.join(dir, 'config', 'session.enc'));
+    const saved = await store.save({ access_token: ACCESS_TOKEN, user_id: 'AB1234', login_time: '2024-01-25 09:15:00' });
+    assert.equal(saved.expires_at, '2024-01-26T00:30:00.000Z');
+
+    const content = await fs.readFile(store.file, 'utf-8');
+    assert.ok(!content.includes(ACCESS_TOKEN));
+    assert.ok(!content.includes('AB1234'));
+    assert.equal((await fs.stat(store.file)).mode & 0o777, 0o600);
+
+    assert.deepEqual(await store.load(new Date('2024-01-25T12:00:00Z')), saved);
+  });
+
+  test('ignores sessions from a previous trading day', async () => {
+    const store = new TokenStore(API_SECRET, path.join(dir, 'expired.enc'));
+    await store.save({ access_token: ACCESS_TOKEN, login_time: '2024-01-25 09:15:00' });
+    assert.equal(await store.load(new Date('2024-01-26T00:30:00Z')), null);
+  });
+
+  test('ignores a store encrypted with a different secret', async () => {
+    const file = path.join(dir, 'rotated.enc');
+    await new TokenStore(API_SECRET, file).save({ access_token: ACCESS_TOKEN });
+    assert.equal(await new TokenStore('a_different_secret', file).load(), null);
+    assert.equal((await new TokenStore(API_SECRET, file).load())?.access_token, ACCESS_TOKEN);
+  });
+
+  test('returns null when nothing is stored', async () => {
+    assert.equal(await new TokenStore(API_SECRET, path.join(dir, 'missing.enc')).load(), null);
+  });
+});